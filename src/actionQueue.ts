@@ -0,0 +1,266 @@
+import { LocalSiteRateLimit } from 'lemmy-js-client';
+import {
+  BotActionQueueOptions,
+  BotLogger,
+  BotRateLimit,
+  BotRateLimits,
+  BotRateLimitType
+} from './types';
+
+/**
+ * Lemmy's default rate limits
+ */
+const DEFAULT_RATE_LIMITS: Record<BotRateLimitType, BotRateLimit> = {
+  message: { actions: 180, perSeconds: 60 },
+  post: { actions: 6, perSeconds: 600 },
+  comment: { actions: 6, perSeconds: 600 },
+  image: { actions: 6, perSeconds: 3600 },
+  search: { actions: 60, perSeconds: 600 }
+};
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_INITIAL_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60000;
+
+const RATE_LIMIT_ERRORS = ['rate_limit_error', 'Too Many Requests'];
+const TRANSIENT_ERRORS = [
+  'fetch failed',
+  'Bad Gateway',
+  'Service Unavailable',
+  'Gateway Timeout'
+];
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+];
+
+const getErrorMessage = (err: any): string | undefined =>
+  err?.error ?? err?.message;
+
+export const isRateLimitError = (err: any) =>
+  RATE_LIMIT_ERRORS.includes(getErrorMessage(err) ?? '');
+
+const isRetryableError = (err: any) =>
+  isRateLimitError(err) ||
+  TRANSIENT_ERRORS.includes(getErrorMessage(err) ?? '') ||
+  TRANSIENT_ERROR_CODES.includes(err?.code ?? err?.cause?.code);
+
+export const rateLimitsFromSite = (
+  rateLimit: LocalSiteRateLimit
+): BotRateLimits => ({
+  message: {
+    actions: rateLimit.message,
+    perSeconds: rateLimit.message_per_second
+  },
+  post: { actions: rateLimit.post, perSeconds: rateLimit.post_per_second },
+  comment: {
+    actions: rateLimit.comment,
+    perSeconds: rateLimit.comment_per_second
+  },
+  image: { actions: rateLimit.image, perSeconds: rateLimit.image_per_second },
+  search: {
+    actions: rateLimit.search,
+    perSeconds: rateLimit.search_per_second
+  }
+});
+
+class TokenBucket {
+  #capacity: number;
+  #msPerToken: number;
+  #tokens: number;
+  #lastRefill = Date.now();
+
+  constructor({ actions, perSeconds }: BotRateLimit) {
+    this.#capacity = Math.max(actions, 1);
+    this.#msPerToken = (1000 * Math.max(perSeconds, 0)) / this.#capacity;
+    this.#tokens = this.#capacity;
+  }
+
+  /**
+   * Takes a token if one is available.
+   *
+   * @returns milliseconds until a token is available, or 0 if a token was taken
+   */
+  take() {
+    this.#refill();
+
+    if (this.#tokens >= 1) {
+      --this.#tokens;
+
+      return 0;
+    }
+
+    return Math.ceil((1 - this.#tokens) * this.#msPerToken);
+  }
+
+  #refill() {
+    const now = Date.now();
+
+    this.#tokens =
+      this.#msPerToken === 0
+        ? this.#capacity
+        : Math.min(
+            this.#capacity,
+            this.#tokens + (now - this.#lastRefill) / this.#msPerToken
+          );
+    this.#lastRefill = now;
+  }
+}
+
+type QueuedAction = {
+  action: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+  attempt: number;
+};
+
+export default class ActionQueue {
+  #buckets = new Map<BotRateLimitType, TokenBucket>();
+  #queues = new Map<BotRateLimitType, QueuedAction[]>();
+  #timers = new Map<BotRateLimitType, NodeJS.Timeout>();
+  #retrying = 0;
+  #overrides: BotRateLimits;
+  #maxRetries: number;
+  #initialRetryDelayMs: number;
+  #maxRetryDelayMs: number;
+  #logger: BotLogger;
+  #onRateLimitWait?: (type: BotRateLimitType, waitMs: number) => void;
+
+  /**
+   * @param onRateLimitWait called whenever actions have to wait for a rate limit
+   */
+  constructor(
+    {
+      rateLimits = {},
+      maxRetries = DEFAULT_MAX_RETRIES,
+      initialRetryDelayMs = DEFAULT_INITIAL_RETRY_DELAY_MS,
+      maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS
+    }: BotActionQueueOptions,
+    logger: BotLogger,
+    onRateLimitWait?: (type: BotRateLimitType, waitMs: number) => void
+  ) {
+    this.#overrides = rateLimits;
+    this.#maxRetries = maxRetries;
+    this.#initialRetryDelayMs = initialRetryDelayMs;
+    this.#maxRetryDelayMs = maxRetryDelayMs;
+    this.#logger = logger;
+    this.#onRateLimitWait = onRateLimitWait;
+    this.setRateLimits(DEFAULT_RATE_LIMITS);
+  }
+
+  /**
+   * Number of actions waiting to be performed, including actions waiting to be retried
+   */
+  get depth() {
+    let depth = this.#retrying;
+
+    for (const queue of this.#queues.values()) {
+      depth += queue.length;
+    }
+
+    return depth;
+  }
+
+  /**
+   * Replace the rate limits used for each type of action. Limits passed in the queue options take precedence.
+   */
+  setRateLimits(rateLimits: BotRateLimits) {
+    for (const type of Object.keys(DEFAULT_RATE_LIMITS) as BotRateLimitType[]) {
+      const rateLimit = this.#overrides[type] ?? rateLimits[type];
+
+      if (rateLimit) {
+        this.#buckets.set(type, new TokenBucket(rateLimit));
+      }
+    }
+  }
+
+  enqueue<T>(type: BotRateLimitType, action: () => Promise<T>) {
+    return new Promise<T>((resolve, reject) => {
+      this.#push(type, { action, resolve, reject, attempt: 0 });
+    });
+  }
+
+  #push(type: BotRateLimitType, queuedAction: QueuedAction) {
+    let queue = this.#queues.get(type);
+
+    if (!queue) {
+      queue = [];
+      this.#queues.set(type, queue);
+    }
+
+    queue.push(queuedAction);
+    this.#process(type);
+  }
+
+  #process(type: BotRateLimitType) {
+    const queue = this.#queues.get(type);
+    const bucket = this.#buckets.get(type)!;
+
+    if (this.#timers.has(type)) {
+      return;
+    }
+
+    while (queue && queue.length > 0) {
+      const wait = bucket.take();
+
+      if (wait > 0) {
+        this.#logger.info(
+          `Rate limit reached for ${type} actions. Waiting ${Math.ceil(wait / 1000)} seconds`
+        );
+        this.#onRateLimitWait?.(type, wait);
+        this.#timers.set(
+          type,
+          setTimeout(() => {
+            this.#timers.delete(type);
+            this.#process(type);
+          }, wait)
+        );
+
+        return;
+      }
+
+      this.#run(type, queue.shift()!);
+    }
+  }
+
+  async #run(type: BotRateLimitType, queuedAction: QueuedAction) {
+    try {
+      queuedAction.resolve(await queuedAction.action());
+    } catch (err) {
+      if (!isRetryableError(err) || queuedAction.attempt >= this.#maxRetries) {
+        queuedAction.reject(err);
+
+        return;
+      }
+
+      const delay = this.#getRetryDelay(queuedAction.attempt);
+      this.#logger.warn(
+        `Action failed with ${getErrorMessage(err)}. Retrying in ${Math.ceil(delay / 1000)} seconds`
+      );
+
+      ++this.#retrying;
+      setTimeout(() => {
+        --this.#retrying;
+        this.#push(type, {
+          ...queuedAction,
+          attempt: queuedAction.attempt + 1
+        });
+      }, delay);
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  #getRetryDelay(attempt: number) {
+    const delay = Math.min(
+      this.#maxRetryDelayMs,
+      this.#initialRetryDelayMs * 2 ** attempt
+    );
+
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
@@ -5,23 +5,60 @@ import {
   ListingType,
   ModlogActionType,
   ApproveRegistrationApplication,
-  GetCommunityResponse
+  GetCommunityResponse,
+  PrivateMessageView,
+  Community
 } from 'lemmy-js-client';
 import {
   correctVote,
   extractInstanceFromActorId,
+  formatError,
+  getAncestorIds,
+  isAuthError,
+  paginate,
+  takeItems,
+  futureMinutesToDate,
   getListingType,
+  parseCredentials,
+  parseFederationOptions,
   parseHandlers,
   shouldProcess
 } from './helpers';
-import {
-  RowUpserter,
-  setupDB,
-  StorageInfoGetter,
-  useDatabaseFunctions
-} from './db';
+import { tableTypes } from './db';
+import { createDefaultStorage } from './storage';
 import ReprocessHandler from './reprocessHandler';
+import {
+  createBotState,
+  createSessionStore,
+  createSnapshotStore,
+  createThreadWatchStore
+} from './state';
+import ThreadWatcher from './threadWatcher';
+import { generateTotp } from './totp';
+import CommandRouter from './commandRouter';
+import { isControlCommand, isOwner, runControlCommand } from './controlChannel';
+import {
+  getBanDetails,
+  getModlogAction,
+  getModlogId,
+  toModlogViews
+} from './modlog';
+import {
+  checkCommentFilter,
+  checkPostFilter,
+  FilterResult
+} from './contentFilter';
+import ActionQueue, { rateLimitsFromSite } from './actionQueue';
+import DryRun, { DryRunSimulation } from './dryRun';
+import { ContextLogger, createConsoleLogger } from './logger';
 import cron, { ScheduledTask } from 'node-cron';
+import { EventEmitter } from 'events';
+import { Server } from 'http';
+import Metrics from './metrics';
+import {
+  closeMonitoringServer,
+  startMonitoringServer
+} from './monitoringServer';
 import {
   BotActions,
   BotFederationOptions,
@@ -31,243 +68,238 @@ import {
   Vote,
   BotCredentials,
   InternalHandlers,
-  BotInstanceList
+  BotInstanceList,
+  BotState,
+  BotStateStore,
+  BotStorage,
+  BotStorageTable,
+  BotPostSnapshot,
+  BotRemovalSummary,
+  BotReport,
+  BotSearchResult,
+  BotCommentNode,
+  BotCommentSnapshot,
+  BotCommandSource,
+  BotRateLimitType,
+  BotEvents,
+  BotTask,
+  BotHealth,
+  BotMonitoringOptions
 } from './types';
 
 const DEFAULT_SECONDS_BETWEEN_POLLS = 30;
 const DEFAULT_MINUTES_UNTIL_REPROCESS: number | undefined = undefined;
-
-class LemmyBot {
+const DEFAULT_MAX_PAGES_PER_POLL = 5;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_MINUTES_BETWEEN_ATTEMPTS = 5;
+const DEFAULT_STOP_TIMEOUT_SECONDS = 30;
+const DEFAULT_MISSED_POLLS_BEFORE_UNHEALTHY = 3;
+const DEFAULT_MINUTES_TO_TRACK_EDITS = 1440;
+const PAGE_LIMIT = 50;
+const LISTING_ACTIONS = [
+  'listPosts',
+  'listComments',
+  'search',
+  'listCommunities',
+  'listReports'
+];
+const USER_AGENT = 'Lemmy-Bot/0.6.1';
+
+const setAuthHeaders = (httpClient: LemmyHttp, jwt?: string) =>
+  httpClient.setHeaders({
+    'user-agent': USER_AGENT,
+    Authorization: `Bearer ${jwt}`
+  });
+
+/**
+ * When the bot stops watching an item for edits
+ */
+const getEditTrackingEnd = (
+  published: string,
+  minutesToTrack = DEFAULT_MINUTES_TO_TRACK_EDITS
+) => new Date(new Date(published).valueOf() + minutesToTrack * 60 * 1000);
+
+type PollerOptions<
+  TItem,
+  THandledItem,
+  TOptions extends Record<string, any>
+> = {
+  handler: keyof InternalHandlers;
+  connection: Connection;
+  table: BotStorageTable;
+  options: BotHandlerOptions<THandledItem, TOptions>;
+  fetchPage?: (page: number) => Promise<TItem[]>;
+  /**
+   * Fetches the items to handle instead of `fetchPage`. Items fetched this way are handled without checking storage,
+   * so the same item can be handled more than once, e.g. once for every edit.
+   */
+  fetchItems?: () => Promise<TItem[]>;
+  filter?: (items: TItem[]) => TItem[];
+  /**
+   * Items that don't pass are marked as handled without running the handler. Pending items are checked again when
+   * they are next fetched.
+   */
+  checkFilter?: (item: TItem) => FilterResult;
+  getId: (item: TItem) => number;
+  getPublished?: (item: TItem) => string;
+  /**
+   * For pages that hold a separate list of items per group, e.g. one list per modlog type.
+   * Each group is caught up on separately.
+   */
+  getGroup?: (item: TItem) => string;
+  /**
+   * When the record of a handled item can be pruned, for items fetched with `fetchItems` that are never looked up
+   * in storage. Records are kept until the handler's reprocess time otherwise.
+   */
+  getExpiry?: (entry: THandledItem) => Date;
+  /**
+   * Whether pages are sorted newest first
+   *
+   * @defaultValue true
+   */
+  isNewestFirst?: boolean;
+  toEntry: (item: TItem) => THandledItem;
+  /**
+   * Rebuilds an entry loaded from storage to retry it, for entries with values that don't survive being stored as JSON,
+   * like dates
+   */
+  fromStoredEntry?: (entry: THandledItem) => THandledItem;
+  onItem?: (item: TItem) => Promise<unknown>;
+};
+
+type Poller = {
+  handler: keyof InternalHandlers;
+  instance: string;
+  poll: () => Promise<void>;
+  secondsBetweenPolls: number;
+  lastSuccessfulPoll?: Date;
+};
+
+type ActionListener = (
+  action: keyof BotActions,
+  args: unknown[],
+  account?: string
+) => void;
+
+type Account = {
+  name: string;
+  credentials: BotCredentials;
+  /**
+   * Client the account is logged in with. The main account of an instance uses the instance's client instead.
+   */
+  client?: LemmyHttp;
+  isLoggedIn: boolean;
+  /**
+   * JWT of the account's current session
+   */
+  jwt?: string;
+  personId?: number;
+  /**
+   * Login in progress, shared by everything waiting for the account to be logged in
+   */
+  login?: Promise<void>;
+};
+
+/**
+ * Everything the bot keeps separately for each instance it runs on
+ */
+type Connection = {
+  instance: string;
+  /**
+   * Client used by the instance's main account, or without logging in if the instance has no accounts.
+   * The bot's main instance uses `__httpClient__` instead so that it can be replaced.
+   */
+  httpClient?: LemmyHttp;
+  /**
+   * Accounts on the instance, starting with its main account
+   */
+  accounts: Account[];
+  federationOptions: BotFederationOptions;
+  federationOptionMaps: {
+    allowMap: Map<string, Set<number> | true>;
+    blockMap: Map<string, Set<number> | true>;
+  };
+  listingType: ListingType;
+  /**
+   * Rate limits are set by each instance, so each instance has its own queue
+   */
+  actionQueue: ActionQueue;
+  state: BotState;
+  sessions: BotStateStore;
+  threadWatcher: ThreadWatcher;
+};
+
+type BotActionOptions<T> = {
+  logMessage: string;
+  action: () => Promise<T>;
+  rateLimitType?: BotRateLimitType;
+  dryRun?: DryRunSimulation<T>;
+};
+
+export const testHooks = Symbol('testHooks');
+
+export type TestHooks = {
+  /**
+   * Start the bot without scheduling polls or tasks
+   */
+  start: () => Promise<void>;
+  getPollers: () => Poller[];
+  /**
+   * Run every scheduled task once, in the order they were scheduled
+   */
+  runTasks: () => Promise<void>;
+  getBotActions: () => BotActions;
+  onAction: (listener: ActionListener) => void;
+  /**
+   * Use the given client for every account on each instance instead of connecting to the instance
+   */
+  useHttpClients: (getClient: (instance: string) => LemmyHttp) => void;
+};
+
+class LemmyBot extends EventEmitter<BotEvents> {
   #isDryRun: boolean;
   #isRunning: boolean;
-  #isLoggedIn = false;
-  #instance: string;
+  #isManualPolling = false;
+  #pollers: Poller[] = [];
+  #actionListeners: ActionListener[] = [];
+  #secure: boolean;
   #timeouts: NodeJS.Timeout[] = [];
   #markAsBot: boolean;
-  #enableLogs: boolean;
+  #logger: ContextLogger;
   #defaultMinutesUntilReprocess?: number;
-  #federationOptions: BotFederationOptions;
-  #tasks: ScheduledTask[] = [];
-  #delayedTasks: (() => Promise<void>)[] = [];
+  #defaultMaxPagesPerPoll: number;
+  #defaultBackfillSince?: Date;
+  #tasks: {
+    task: ScheduledTask;
+    runAtStart: boolean;
+    run: () => Promise<void>;
+  }[] = [];
+  /**
+   * Polls and scheduled tasks that are running, so that stopping the bot can wait for them to finish
+   */
+  #inFlight = new Set<Promise<unknown>>();
   __httpClient__: LemmyHttp;
-  #dbFile?: string;
-  #listingType: ListingType;
-  #credentials?: BotCredentials;
+  #storage: BotStorage;
+  #connections: Connection[];
+  #mainConnection: Connection;
+  /**
+   * Bot actions performed by each instance's main account, keyed by instance
+   */
+  #instanceBotActions = new Map<string, BotActions>();
+  #accountBotActions = new Map<string, BotActions>();
   #defaultSecondsBetweenPolls = DEFAULT_SECONDS_BETWEEN_POLLS;
   #handlers: InternalHandlers;
-  #federationOptionMaps = {
-    allowMap: new Map<string, Set<number> | true>(),
-    blockMap: new Map<string, Set<number> | true>()
-  };
-  #botActions: BotActions = {
-    createPost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: 'Creating post',
-        action: () => this.__httpClient__.createPost(form)
-      }),
-    editPost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Editing post ID ${form.post_id}`,
-        action: () =>
-          this.__httpClient__.editPost({
-            ...form
-          })
-      }),
-    reportPost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Reporting to post ID ${form.post_id} for ${form.reason}`,
-        action: () => this.__httpClient__.createPostReport(form)
-      }),
-    votePost: (form) => {
-      const score = correctVote(form.score);
-      const prefix =
-        score === Vote.Upvote ? 'Up' : score === Vote.Downvote ? 'Down' : 'Un';
-
-      return this.#performLoggedInBotAction({
-        logMessage: `${prefix}voting post ID ${form.post_id}`,
-        action: () =>
-          this.__httpClient__.likePost({
-            ...form,
-            score
-          })
-      });
-    },
-    getPostVotes: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Getting votes for post ${form.post_id}`,
-        action: () => this.__httpClient__.listPostLikes(form)
-      }),
-    createComment: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: form.parent_id
-          ? `Replying to comment ID ${form.parent_id}`
-          : `Replying to post ID ${form.post_id}`,
-        action: () => this.__httpClient__.createComment(form)
-      }),
-    editComment: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Editing comment ID ${form.comment_id}`,
-        action: () => this.__httpClient__.editComment(form)
-      }),
-    reportComment: (form) =>
-      this.#performLoggedInBotAction({
-        action: () => this.__httpClient__.createCommentReport(form),
-        logMessage: `Reporting to comment ID ${form.comment_id} for ${form.reason}`
-      }),
-    distinguishComment: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Distinguishing comment ${form.comment_id}`,
-        action: () => this.__httpClient__.distinguishComment(form)
-      }),
-    voteComment: async (form) => {
-      const score = correctVote(form.score);
-      const prefix =
-        score === Vote.Upvote ? 'Up' : score === Vote.Downvote ? 'Down' : 'Un';
-
-      return await this.#performLoggedInBotAction({
-        logMessage: `${prefix}voting comment ID ${form.comment_id}`,
-        action: () =>
-          this.__httpClient__.likeComment({
-            ...form,
-
-            score
-          })
-      });
-    },
-    getCommentVotes: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Getting votes for comment ID ${form.comment_id}`,
-        action: () => this.__httpClient__.listCommentLikes(form)
-      }),
-    getCommunity: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Getting community ${form.id ? form.id : form.name}`,
-        action: () => this.__httpClient__.getCommunity(form)
-      }),
-    banFromCommunity: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Banning user ID ${form.person_id} from ${form.community_id}`,
-        action: () => this.__httpClient__.banFromCommunity(form)
-      }),
-    banFromSite: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Banning user ID ${form.person_id} from ${this.#instance}`,
-        action: () => this.__httpClient__.banPerson(form)
-      }),
-    sendPrivateMessage: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Sending private message to user ID ${form.recipient_id}`,
-        action: () => this.__httpClient__.createPrivateMessage(form)
-      }),
-    reportPrivateMessage: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Reporting private message ID ${form.private_message_id}. Reason: ${form.reason}`,
-        action: () => this.__httpClient__.createPrivateMessageReport(form)
-      }),
-    approveRegistrationApplication: (form: ApproveRegistrationApplication) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Approving application ID ${form.id}`,
-        action: () => this.__httpClient__.approveRegistrationApplication(form)
-      }),
-    removePost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Removing post ID ${form.post_id}`,
-        action: () => this.__httpClient__.removePost(form)
-      }),
-    removeComment: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Removing comment ID ${form.comment_id}`,
-        action: () => this.__httpClient__.removeComment(form)
-      }),
-    resolvePostReport: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Resolving post report ID ${form.report_id}`,
-        action: () => this.__httpClient__.resolvePostReport(form)
-      }),
-    resolveCommentReport: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Resolving comment report ID ${form.report_id}`,
-        action: () => this.__httpClient__.resolveCommentReport(form)
-      }),
-    resolvePrivateMessageReport: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Resolving private message report ID ${form.report_id}`,
-        action: () => this.__httpClient__.resolvePrivateMessageReport(form)
-      }),
-    featurePost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `${form.featured ? 'F' : 'Unf'}eaturing report ID ${form.post_id}`,
-        action: () => this.__httpClient__.featurePost(form)
-      }),
-    lockPost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `${form.locked ? 'L' : 'Unl'}ocking report ID ${form.post_id}`,
-        action: () => this.__httpClient__.lockPost(form)
-      }),
-    followCommunity: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Following community ID ${form.community_id}`,
-        action: () => this.__httpClient__.followCommunity(form)
-      }),
-    uploadImage: (image) =>
-      this.#performLoggedInBotAction({
-        logMessage: 'Uploading image',
-        action: () => this.__httpClient__.uploadImage({ image })
-      }),
-    getPost: (options) => this.__httpClient__.getPost(options),
-    getComment: (options) => this.__httpClient__.getComment(options),
-    getParentOfComment: async ({ path, post_id }) => {
-      const pathList = path.split('.').filter((i) => i !== '0');
-
-      if (pathList.length === 1) {
-        return {
-          type: 'post',
-          post: await this.#botActions.getPost({
-            id: post_id
-          })
-        };
-      } else {
-        const parentId = Number(pathList[pathList.length - 2]);
-
-        return {
-          type: 'comment',
-          comment: await this.#botActions.getComment({ id: parentId })
-        };
-      }
-    },
-    isCommunityMod: async ({ community, person }) => {
-      const { moderates } = await this.__httpClient__.getPersonDetails({
-        person_id: person.id
-      });
-
-      return moderates.some((comm) => comm.community.id === community.id);
-    },
-    resolveObject: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Resolving object: ${form.q}`,
-        action: () => this.__httpClient__.resolveObject(form)
-      }),
-    getPersonDetails: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Getting details for ${form.username ? form.username : `user with ID ${form.person_id}`}`,
-        action: () => this.__httpClient__.getPersonDetails(form)
-      }),
-    listMedia: (form = {}) =>
-      this.#performLoggedInBotAction({
-        logMessage: 'Listing media posted by bot',
-        action: () => this.__httpClient__.listMedia(form)
-      }),
-    listAllMedia: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: 'Listing all media posted on instance',
-        action: () => this.__httpClient__.listAllMedia(form)
-      }),
-    hidePost: (form) =>
-      this.#performLoggedInBotAction({
-        logMessage: `Hiding posts with IDs = ${form.post_ids.join(', ')}`,
-        action: () => this.__httpClient__.hidePost(form)
-      })
-  };
+  #commandRouter?: CommandRouter;
+  #owners: string[];
+  #pausedHandlers = new Set<string>();
+  #dryRun: DryRun;
+  #onError?: BotOptions['onError'];
+  #maxAttempts: number;
+  #minutesBetweenAttempts: number;
+  #metrics = new Metrics();
+  #monitoring?: BotMonitoringOptions;
+  #monitoringServer?: Server;
+  #startedAt?: Date;
 
   constructor({
     instance,
@@ -277,71 +309,73 @@ class LemmyBot {
       minutesUntilReprocess:
         defaultMinutesUntilReprocess = DEFAULT_MINUTES_UNTIL_REPROCESS,
       secondsBetweenPolls:
-        defaultSecondsBetweenPolls = DEFAULT_SECONDS_BETWEEN_POLLS
+        defaultSecondsBetweenPolls = DEFAULT_SECONDS_BETWEEN_POLLS,
+      maxPagesPerPoll: defaultMaxPagesPerPoll = DEFAULT_MAX_PAGES_PER_POLL,
+      backfillSince: defaultBackfillSince
     } = {
       secondsBetweenPolls: DEFAULT_SECONDS_BETWEEN_POLLS,
-      minutesUntilReprocess: DEFAULT_MINUTES_UNTIL_REPROCESS
+      minutesUntilReprocess: DEFAULT_MINUTES_UNTIL_REPROCESS,
+      maxPagesPerPoll: DEFAULT_MAX_PAGES_PER_POLL
     },
     dbFile,
+    storage,
     federation,
     schedule,
     markAsBot = true,
     enableLogs = true,
     dryRun = false,
-    secure = true
+    dryRunTranscriptFile,
+    secure = true,
+    commands,
+    commandPrefix,
+    actionQueue = {},
+    logger = createConsoleLogger(),
+    onError,
+    retryPolicy: {
+      maxAttempts = DEFAULT_MAX_ATTEMPTS,
+      minutesBetweenAttempts = DEFAULT_MINUTES_BETWEEN_ATTEMPTS
+    } = {},
+    monitoring,
+    owners = []
   }: BotOptions) {
-    if (!instance) {
-      console.log('Cannot use bot without instance!');
+    super();
+    const instances = Array.isArray(instance) ? instance : [instance];
+
+    if (instances.length === 0 || instances.some((i) => !i)) {
+      logger.error('Cannot use bot without instance!');
       process.exit(1);
     }
 
-    switch (federation) {
-      case undefined:
-      case 'local': {
-        this.#federationOptions = {
-          allowList: [instance]
-        };
-
-        break;
-      }
-      case 'all': {
-        this.#federationOptions = {
-          blockList: []
-        };
+    this.#logger = new ContextLogger(
+      logger,
+      instances.length === 1 ? { instance: instances[0] } : {},
+      enableLogs
+    );
 
-        break;
-      }
+    const accountsByInstance = new Map<string, Account[]>(
+      instances.map((i) => [i, []])
+    );
 
-      default: {
-        if (
-          (federation.allowList?.length ?? 0) > 0 &&
-          (federation.blockList?.length ?? 0) > 0
-        ) {
-          throw 'Cannot have both block list and allow list defined for federation options';
-        } else if (
-          (!federation.allowList || federation.allowList.length === 0) &&
-          (!federation.blockList || federation.blockList.length === 0)
-        ) {
-          throw 'Neither the block list nor allow list has any instances. To fix this issue, make sure either allow list or block list (not both) has at least one instance.\n\nAlternatively, the you can set the federation property to one of the strings "local" or "all".';
-        } else if (federation.blockList?.includes(instance)) {
-          throw 'Cannot put bot instance in blocklist unless blocking specific communities';
-        } else {
-          this.#federationOptions = federation;
+    for (const [name, accountCredentials] of parseCredentials(credentials)) {
+      const accountInstance = accountCredentials.instance ?? instances[0];
+      const accounts = accountsByInstance.get(accountInstance);
 
-          if (
-            this.#federationOptions.allowList &&
-            !this.#federationOptions.allowList.some(
-              (i) =>
-                i === instance ||
-                (i as BotInstanceFederationOptions).instance === instance
-            )
-          ) {
-            this.#federationOptions.allowList.push(instance);
-          }
-        }
+      if (!accounts) {
+        throw `Account ${name} is on ${accountInstance}, which is not one of the bot's instances`;
       }
+
+      accounts.push({
+        name,
+        credentials: accountCredentials,
+        isLoggedIn: false
+      });
     }
 
+    // Validate federation options for every instance before anything is set up
+    const federationOptions = instances.map((i) =>
+      parseFederationOptions(federation, i)
+    );
+
     if (schedule) {
       const tasks = Array.isArray(schedule) ? schedule : [schedule];
 
@@ -350,53 +384,107 @@ class LemmyBot {
           throw `Schedule has invalid cron expression (${task.cronExpression}). Consult this documentation for valid expressions: https://www.gnu.org/software/mcron/manual/html_node/Crontab-file.html`;
         }
 
-        this.#tasks.push(
-          cron.schedule(
+        const run = () => this.#runTask(task);
+
+        this.#tasks.push({
+          task: cron.createTask(
             task.cronExpression,
-            () =>
-              task.doTask({
-                botActions: this.#botActions,
-                __httpClient__: this.__httpClient__
-              }),
-            task.timezone || task.runAtStart
-              ? {
-                  ...(task.timezone ? { timezone: task.timezone } : {}),
-                  ...(task.runAtStart ? { runOnInit: task.runAtStart } : {})
-                }
-              : undefined
-          )
-        );
+            run,
+            task.timezone ? { timezone: task.timezone } : undefined
+          ),
+          runAtStart: task.runAtStart ?? false,
+          run
+        });
       }
     }
 
-    this.#credentials = credentials;
     this.#defaultSecondsBetweenPolls = defaultSecondsBetweenPolls;
     this.#isDryRun = dryRun;
+    this.#dryRun = new DryRun(this.#logger, dryRunTranscriptFile);
     this.#isRunning = false;
     this.#markAsBot = markAsBot;
-    this.#enableLogs = enableLogs;
-    this.#instance = instance;
+    this.#secure = secure;
     this.#defaultMinutesUntilReprocess = defaultMinutesUntilReprocess;
-    this.__httpClient__ = new LemmyHttp(
-      `http${secure ? 's' : ''}://${this.#instance}`
-    );
-    this.__httpClient__.setHeaders({ 'user-agent': 'Lemmy-Bot/0.6.1' });
-    this.#dbFile = dbFile;
-    this.#listingType = getListingType(this.#federationOptions);
-
+    this.#defaultMaxPagesPerPoll = defaultMaxPagesPerPoll;
+    this.#defaultBackfillSince = defaultBackfillSince;
+    this.#onError = onError;
+    this.#monitoring = monitoring;
+    this.#owners = owners;
+    this.#maxAttempts = maxAttempts;
+    this.#minutesBetweenAttempts = minutesBetweenAttempts;
+    this.__httpClient__ = this.#createHttpClient(instances[0]);
+    this.#storage = storage ?? createDefaultStorage(dbFile, this.#logger.warn);
     this.#handlers = parseHandlers(handlers);
+    this.#connections = instances.map((connectionInstance, i) => {
+      const accounts = accountsByInstance.get(connectionInstance)!;
+
+      for (const account of accounts.slice(1)) {
+        account.client = this.#createHttpClient(connectionInstance);
+      }
+
+      return {
+        instance: connectionInstance,
+        httpClient:
+          i === 0 ? undefined : this.#createHttpClient(connectionInstance),
+        accounts,
+        federationOptions: federationOptions[i],
+        federationOptionMaps: {
+          allowMap: new Map(),
+          blockMap: new Map()
+        },
+        listingType: getListingType(federationOptions[i]),
+        actionQueue: new ActionQueue(
+          actionQueue,
+          this.#logger,
+          (type, waitMs) => {
+            const labels = { instance: connectionInstance, type };
+            this.#metrics.rateLimitWaits.inc(labels);
+            this.#metrics.rateLimitWaitSeconds.inc(labels, waitMs / 1000);
+          }
+        ),
+        state: createBotState(this.#storage, connectionInstance),
+        sessions: createSessionStore(this.#storage, connectionInstance),
+        threadWatcher: new ThreadWatcher(
+          createThreadWatchStore(this.#storage, connectionInstance)
+        )
+      };
+    });
+    this.#mainConnection = this.#connections[0];
+
+    for (const connection of this.#connections) {
+      for (const account of connection.accounts) {
+        this.#accountBotActions.set(
+          account.name,
+          this.#createBotActions(connection, account)
+        );
+      }
+
+      this.#instanceBotActions.set(
+        connection.instance,
+        connection.accounts.length > 0
+          ? this.#getAccountBotActions(connection.accounts[0].name)
+          : this.#createBotActions(connection)
+      );
+    }
+
+    if (commands && Object.keys(commands).length > 0) {
+      this.#commandRouter = new CommandRouter(commands, commandPrefix);
+    }
   }
 
   async #runChecker(
+    connection: Connection,
     checker: () => void,
     secondsBetweenPolls: number = this.#defaultSecondsBetweenPolls
   ) {
+    const [mainAccount] = connection.accounts;
+
     if (this.#isRunning) {
-      if (this.#isLoggedIn || !this.#credentials) {
+      if (!mainAccount || mainAccount.isLoggedIn) {
         checker();
         const timeout = setTimeout(
           () => {
-            this.#runChecker(checker, secondsBetweenPolls);
+            this.#runChecker(connection, checker, secondsBetweenPolls);
             this.#timeouts = this.#timeouts.filter((t) => t !== timeout);
           },
           1000 *
@@ -406,11 +494,13 @@ class LemmyBot {
         );
 
         this.#timeouts.push(timeout);
-      } else if (this.#credentials) {
-        await this.#login();
+      } else {
+        await this.#login(connection, mainAccount).catch((err) =>
+          this.#reportError(`Could not log in: ${formatError(err)}`, err)
+        );
 
         const timeout = setTimeout(() => {
-          this.#runChecker(checker, secondsBetweenPolls);
+          this.#runChecker(connection, checker, secondsBetweenPolls);
           this.#timeouts = this.#timeouts.filter((t) => t !== timeout);
         }, 5000);
 
@@ -423,48 +513,495 @@ class LemmyBot {
     }
   }
 
+  #runPoller<
+    TItem,
+    THandledItem,
+    TOptions extends Record<string, any> = Record<string, never>
+  >({
+    handler,
+    connection,
+    table,
+    options,
+    fetchPage,
+    fetchItems,
+    filter = (items) => items,
+    checkFilter = () => 'pass',
+    getId,
+    getPublished,
+    getGroup,
+    isNewestFirst,
+    getExpiry,
+    toEntry,
+    fromStoredEntry,
+    onItem
+  }: PollerOptions<TItem, THandledItem, TOptions>) {
+    let isFirstPoll = true;
+    const labels = { instance: connection.instance, handler };
+
+    const poll = () =>
+      this.#track(
+        this.#logger.run(
+          { handler, instance: connection.instance },
+          async () => {
+            if (
+              handler !== 'privateMessage' &&
+              this.#pausedHandlers.has(handler)
+            ) {
+              return;
+            }
+
+            const [mainAccount] = connection.accounts;
+            const jwt = mainAccount?.jwt;
+
+            try {
+              const items = fetchItems
+                ? await fetchItems()
+                : await this.#fetchNewItems({
+                    connection,
+                    table,
+                    fetchPage: fetchPage!,
+                    getId,
+                    getPublished: getPublished!,
+                    getGroup,
+                    isNewestFirst,
+                    maxPages:
+                      options.maxPagesPerPoll ?? this.#defaultMaxPagesPerPoll,
+                    backfillSince: isFirstPoll
+                      ? (options.backfillSince ?? this.#defaultBackfillSince)
+                      : undefined,
+                    isFirstPoll
+                  });
+              isFirstPoll = false;
+              this.#metrics.itemsSeen.inc(labels, items.length);
+
+              await Promise.all(
+                filter(items).map((item) =>
+                  this.#logger.run({ itemId: getId(item) }, () => {
+                    const filterResult = checkFilter(item);
+
+                    return filterResult !== 'pass'
+                      ? this.#markSkipped(
+                          connection,
+                          table,
+                          getId(item),
+                          filterResult === 'pending'
+                        )
+                      : Promise.all([
+                          fetchItems
+                            ? this.#runHandler({
+                                handler,
+                                connection,
+                                table,
+                                options,
+                                entry: toEntry(item),
+                                id: getId(item),
+                                attempt: 1,
+                                expires: getExpiry?.(toEntry(item))
+                              })
+                            : this.#handleEntry({
+                                handler,
+                                connection,
+                                table,
+                                options,
+                                entry: toEntry(item),
+                                id: getId(item)
+                              }),
+                          onItem?.(item).catch((err) =>
+                            this.#logger.error(
+                              `Could not mark item as read: ${formatError(err)}`
+                            )
+                          )
+                        ]);
+                  })
+                )
+              );
+
+              await this.#retryFailedItems({
+                handler,
+                connection,
+                table,
+                options,
+                getExpiry,
+                fromStoredEntry
+              });
+
+              poller.lastSuccessfulPoll = new Date();
+              this.#metrics.polls.inc({ ...labels, result: 'success' });
+              this.#metrics.lastSuccessfulPoll.set(labels, Date.now() / 1000);
+              this.emit('pollCompleted', {
+                instance: connection.instance,
+                handler,
+                itemCount: items.length
+              });
+            } catch (err) {
+              this.#metrics.polls.inc({ ...labels, result: 'failure' });
+              this.#reportError(
+                `Could not poll ${table}: ${formatError(err)}`,
+                err
+              );
+
+              if (mainAccount && isAuthError(err)) {
+                await this.#expireSession(connection, mainAccount, jwt);
+              }
+            }
+          }
+        )
+      );
+
+    const poller: Poller = {
+      handler,
+      instance: connection.instance,
+      poll,
+      secondsBetweenPolls: Math.max(
+        options.secondsBetweenPolls ?? this.#defaultSecondsBetweenPolls,
+        DEFAULT_SECONDS_BETWEEN_POLLS
+      )
+    };
+    this.#pollers.push(poller);
+
+    if (!this.#isManualPolling) {
+      this.#runChecker(connection, poll, options.secondsBetweenPolls);
+    }
+  }
+
+  /**
+   * Fetches pages until reaching an item that has already been handled.
+   * The first poll only fetches one page unless backfilling, in which case
+   * it keeps fetching until reaching items published before `backfillSince`.
+   * When items are grouped, later pages only include groups that haven't been caught up on yet.
+   * Pages that aren't sorted newest first can have new items after handled or old ones, so every page up to
+   * `maxPages` is fetched instead, and backfilling skips old items without stopping.
+   */
+  async #fetchNewItems<TItem>({
+    connection,
+    table,
+    fetchPage,
+    getId,
+    getPublished,
+    getGroup = () => '',
+    isNewestFirst = true,
+    maxPages,
+    backfillSince,
+    isFirstPoll
+  }: Pick<
+    PollerOptions<TItem, unknown, Record<string, never>>,
+    'connection' | 'table' | 'getId' | 'getGroup' | 'isNewestFirst'
+  > & {
+    fetchPage: (page: number) => Promise<TItem[]>;
+    getPublished: (item: TItem) => string;
+    maxPages: number;
+    backfillSince?: Date;
+    isFirstPoll: boolean;
+  }) {
+    const lastPage =
+      backfillSince && isNewestFirst
+        ? Infinity
+        : isFirstPoll && !backfillSince
+          ? 1
+          : Math.max(maxPages, 1);
+    const items: TItem[] = [];
+    const caughtUpGroups = new Set<string>();
+
+    for (let page = 1; page <= lastPage; ++page) {
+      if (page > 1) {
+        this.#logger.debug(`Catching up on ${table}: fetching page ${page}`);
+      }
+
+      const pageItems = await fetchPage(page);
+      const groupSizes = new Map<string, number>();
+      const caughtUpOnPage = new Set<string>();
+
+      for (const item of pageItems) {
+        const group = getGroup(item);
+        groupSizes.set(group, (groupSizes.get(group) ?? 0) + 1);
+
+        if (caughtUpGroups.has(group)) {
+          continue;
+        }
+
+        if (backfillSince && new Date(getPublished(item)) < backfillSince) {
+          if (isNewestFirst) {
+            caughtUpOnPage.add(group);
+          }
+
+          continue;
+        }
+
+        if (
+          isNewestFirst &&
+          (await this.#storage.get(connection.instance, table, getId(item)))
+            .exists
+        ) {
+          caughtUpOnPage.add(group);
+        }
+
+        items.push(item);
+      }
+
+      for (const [group, size] of groupSizes) {
+        if (size < PAGE_LIMIT || caughtUpOnPage.has(group)) {
+          caughtUpGroups.add(group);
+        }
+      }
+
+      if ([...groupSizes.keys()].every((group) => caughtUpGroups.has(group))) {
+        break;
+      } else if (page === lastPage && isNewestFirst) {
+        this.#logger.warn(
+          `Reached limit of ${lastPage} pages while polling ${table}. Some items may not be handled.`
+        );
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Fetches items published within the tracking window and compares them to what they looked like when last seen.
+   * Items seen for the first time are only recorded, since there is nothing to compare them to.
+   *
+   * @returns items that changed since they were last seen, along with what they looked like before
+   */
+  async #fetchEditedItems<
+    TItem extends PostView | CommentView,
+    TSnapshot extends { updated?: string }
+  >({
+    connection,
+    type,
+    options: {
+      minutesToTrack = DEFAULT_MINUTES_TO_TRACK_EDITS,
+      maxPagesPerPoll = this.#defaultMaxPagesPerPoll
+    },
+    fetchPage,
+    getId,
+    getPublished,
+    getSnapshot,
+    checkFilter = () => 'pass'
+  }: {
+    connection: Connection;
+    type: 'post' | 'comment';
+    options: { minutesToTrack?: number; maxPagesPerPoll?: number };
+    fetchPage: (page: number) => Promise<TItem[]>;
+    getId: (item: TItem) => number;
+    getPublished: (item: TItem) => string;
+    getSnapshot: (item: TItem) => TSnapshot;
+    checkFilter?: (item: TItem) => FilterResult;
+  }) {
+    const snapshots = createSnapshotStore(
+      this.#storage,
+      connection.instance,
+      type
+    );
+    const trackedUntil = (item: TItem) =>
+      getEditTrackingEnd(getPublished(item), minutesToTrack).valueOf();
+    const edited: { item: TItem; previous: TSnapshot }[] = [];
+
+    for (let page = 1; page <= Math.max(maxPagesPerPoll, 1); ++page) {
+      const pageItems = await fetchPage(page);
+      const now = Date.now();
+      const trackedItems = pageItems.filter((item) => trackedUntil(item) > now);
+
+      for (const item of this.#filterFromResponse(connection, trackedItems)) {
+        const key = getId(item).toString();
+        const previous = await snapshots.get<TSnapshot>(key);
+        const snapshot = getSnapshot(item);
+
+        if (previous) {
+          if (previous.updated === snapshot.updated) {
+            continue;
+          }
+
+          // Items that don't pass the filter are still recorded so later edits are compared to the latest version
+          if (checkFilter(item) === 'pass') {
+            edited.push({ item, previous });
+          }
+        }
+
+        await snapshots.set(key, snapshot, {
+          minutesUntilExpiry: (trackedUntil(item) - now) / (60 * 1000)
+        });
+      }
+
+      if (
+        pageItems.length < PAGE_LIMIT ||
+        trackedItems.length < pageItems.length
+      ) {
+        break;
+      }
+    }
+
+    return edited;
+  }
+
+  /**
+   * Fetches comments on watched posts that haven't been handled yet, along with the comments they reply to
+   */
+  async #fetchWatchedThreadComments(
+    connection: Connection,
+    {
+      maxPagesPerPoll = this.#defaultMaxPagesPerPoll
+    }: { maxPagesPerPoll?: number }
+  ) {
+    const httpClient = this.#getHttpClient(connection);
+    const entries: { commentView: CommentView; ancestors: CommentView[] }[] =
+      [];
+
+    for (const {
+      postId,
+      since
+    } of await connection.threadWatcher.getWatchedThreads()) {
+      const comments = await this.#fetchNewItems({
+        connection,
+        table: 'threadComments',
+        fetchPage: async (page) => {
+          const { comments } = await httpClient.getComments({
+            post_id: postId,
+            type_: 'All',
+            sort: 'New',
+            page,
+            limit: PAGE_LIMIT
+          });
+
+          return comments;
+        },
+        getId: ({ comment: { id } }) => id,
+        getPublished: ({ comment: { published } }) => published,
+        maxPages: maxPagesPerPoll,
+        backfillSince: since,
+        isFirstPoll: false
+      });
+      const commentsById = new Map(
+        comments.map((commentView) => [commentView.comment.id, commentView])
+      );
+
+      for (const commentView of comments) {
+        if (
+          !shouldProcess(
+            await this.#storage.get(
+              connection.instance,
+              'threadComments',
+              commentView.comment.id
+            )
+          )
+        ) {
+          continue;
+        }
+
+        const ancestors: CommentView[] = [];
+
+        for (const id of getAncestorIds(commentView.comment)) {
+          let ancestor = commentsById.get(id);
+
+          if (!ancestor) {
+            ancestor = (await httpClient.getComment({ id })).comment_view;
+            commentsById.set(id, ancestor);
+          }
+
+          ancestors.push(ancestor);
+        }
+
+        entries.push({ commentView, ancestors });
+      }
+    }
+
+    return entries;
+  }
+
   async #runBot() {
-    const {
-      comment: commentOptions,
-      post: postOptions,
-      privateMessage: privateMessageOptions,
-      registrationApplication: registrationApplicationOptions,
-      mention: mentionOptions,
-      reply: replyOptions,
-      commentReport: commentReportOptions,
-      postReport: postReportOptions,
-      privateMessageReport: privateMessageReportOptions,
-      modRemovePost: modRemovePostOptions,
-      modLockPost: modLockPostOptions,
-      modFeaturePost: modFeaturePostOptions,
-      modRemoveComment: modRemoveCommentOptions,
-      modRemoveCommunity: modRemoveCommunityOptions,
-      modBanFromCommunity: modBanFromCommunityOptions,
-      modAddModToCommunity: modAddModToCommunityOptions,
-      modTransferCommunity: modTransferCommunityOptions,
-      modAddAdmin: modAddAdminOptions,
-      modBanFromSite: modBanFromSiteOptions
-    } = this.#handlers;
+    this.#pollers = [];
+
+    this.#logger.info('Initializing storage');
+    await this.#storage.init?.(this.#mainConnection.instance);
+    await Promise.all([
+      ...tableTypes.map((table) => this.#storage.prune(table, new Date())),
+      this.#storage.pruneState(new Date())
+    ]);
+
+    await Promise.all(
+      this.#connections.map((connection) =>
+        this.#logger.run({ instance: connection.instance }, () =>
+          this.#connect(connection)
+        )
+      )
+    );
+
+    if (!this.#isManualPolling) {
+      for (const { task, runAtStart } of this.#tasks) {
+        await task.start();
+
+        if (runAtStart) {
+          task.execute();
+        }
+      }
+    }
+
+    for (const connection of this.#connections) {
+      this.#startPollers(connection);
+    }
+
+    this.#logger.info('Started bot');
+    this.emit('started');
+  }
+
+  #runTask({ doTask }: BotTask) {
+    return this.#track(
+      Promise.resolve()
+        .then(() =>
+          doTask({
+            botActions: this.#getBotActions(this.#mainConnection),
+            state: this.#mainConnection.state,
+            __httpClient__: this.__httpClient__
+          })
+        )
+        .catch((err) =>
+          this.#reportError(`Scheduled task failed: ${formatError(err)}`, err)
+        )
+    );
+  }
+
+  #track<T>(promise: Promise<T>) {
+    this.#inFlight.add(promise);
 
-    await setupDB(this.#log, this.#dbFile);
+    return promise.finally(() => {
+      this.#inFlight.delete(promise);
+    });
+  }
 
-    if (this.#credentials) {
-      await this.#login();
+  /**
+   * Logs an error and emits it to `error` listeners, if there are any
+   */
+  #reportError(message: string, error: unknown) {
+    this.#logger.error(message);
+
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', { error, context: this.#logger.context });
     }
+  }
 
-    const subList = this.#federationOptions.allowList?.filter(
+  /**
+   * Logs in the instance's accounts and looks up the communities in its federation options
+   */
+  async #connect(connection: Connection) {
+    const botActions = this.#getBotActions(connection);
+    await connection.threadWatcher.load();
+
+    await Promise.all(
+      connection.accounts.map((account) => this.#login(connection, account))
+    );
+
+    const subList = connection.federationOptions.allowList?.filter(
       (option) => typeof option !== 'string'
     ) as BotInstanceFederationOptions[] | undefined;
 
     if (
       subList &&
-      subList.length === this.#federationOptions.allowList?.length
+      subList.length === connection.federationOptions.allowList?.length
     ) {
-      this.#listingType = 'Subscribed';
+      connection.listingType = 'Subscribed';
       await Promise.allSettled(
         subList.flatMap(({ communities, instance }) =>
           communities.map((name) =>
-            this.#botActions
+            botActions
               .getCommunity({ name: `${name}@${instance}` })
               .then(
                 ({
@@ -472,627 +1009,1115 @@ class LemmyBot {
                     community: { id }
                   }
                 }) =>
-                  this.__httpClient__.followCommunity({
+                  botActions.followCommunity({
                     community_id: id,
                     follow: true
                   })
               )
               .catch(() =>
-                console.log(`Could not subscribe to !${name}@${instance}`)
+                this.#logger.warn(`Could not subscribe to !${name}@${instance}`)
               )
           )
         )
       );
     }
 
-    if (this.#delayedTasks.length > 0) {
-      await Promise.all(this.#delayedTasks);
-    }
-
-    for (const task of this.#tasks) {
-      task.start();
-    }
+    await this.#getCommunityIdsForAllowList(connection);
+  }
 
-    await this.#getCommunityIdsForAllowList();
+  #startPollers(connection: Connection) {
+    const httpClient = () => this.#getHttpClient(connection);
+    const [mainAccount] = connection.accounts;
+    const {
+      comment: commentOptions,
+      post: postOptions,
+      postEdit: postEditOptions,
+      commentEdit: commentEditOptions,
+      threadWatch: threadWatchOptions,
+      registrationApplication: registrationApplicationOptions,
+      commentReport: commentReportOptions,
+      postReport: postReportOptions,
+      privateMessageReport: privateMessageReportOptions,
+      modRemovePost: modRemovePostOptions,
+      modLockPost: modLockPostOptions,
+      modFeaturePost: modFeaturePostOptions,
+      modRemoveComment: modRemoveCommentOptions,
+      modRemoveCommunity: modRemoveCommunityOptions,
+      modBanFromCommunity: modBanFromCommunityOptions,
+      modAddModToCommunity: modAddModToCommunityOptions,
+      modTransferCommunity: modTransferCommunityOptions,
+      modAddAdmin: modAddAdminOptions,
+      modBanFromSite: modBanFromSiteOptions,
+      modHideCommunity: modHideCommunityOptions,
+      adminPurgePerson: adminPurgePersonOptions,
+      adminPurgeCommunity: adminPurgeCommunityOptions,
+      adminPurgePost: adminPurgePostOptions,
+      adminPurgeComment: adminPurgeCommentOptions,
+      modlog: modlogOptions
+    } = this.#handlers;
+    const privateMessageOptions = this.#withControlChannel(
+      connection,
+      this.#withCommands(this.#handlers.privateMessage, ({ messageView }) => ({
+        type: 'privateMessage',
+        messageView
+      }))
+    );
+    const mentionOptions = this.#withCommands(
+      this.#handlers.mention,
+      ({ mentionView }) => ({ type: 'mention', mentionView })
+    );
+    const replyOptions = this.#withCommands(
+      this.#handlers.reply,
+      ({ replyView }) => ({ type: 'reply', replyView })
+    );
 
     if (postOptions) {
-      this.#runChecker(async () => {
-        const response = await this.__httpClient__.getPosts({
-          type_: this.#listingType,
-          sort: postOptions.sort
-        });
+      this.#runPoller({
+        handler: 'post',
+        connection,
+        table: 'posts',
+        options: postOptions,
+        fetchPage: async (page) => {
+          const { posts } = await httpClient().getPosts({
+            type_: connection.listingType,
+            sort: postOptions.sort ?? 'New',
+            page,
+            limit: PAGE_LIMIT
+          });
 
-        const posts = this.#filterFromResponse(response.posts);
-
-        await useDatabaseFunctions(
-          'posts',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              posts.map((postView) =>
-                this.#handleEntry({
-                  getStorageInfo: get,
-                  upsert,
-                  entry: { postView },
-                  id: postView.post.id,
-                  options: postOptions
-                })
+          return posts;
+        },
+        filter: (posts) => this.#filterFromResponse(connection, posts),
+        isNewestFirst: (postOptions.sort ?? 'New') === 'New',
+        checkFilter: postOptions.filter
+          ? (postView) =>
+              checkPostFilter(
+                postView,
+                postOptions.filter!,
+                this.#getBotPersonIds(connection)
               )
-            );
-          },
-          this.#dbFile
-        );
-      }, postOptions.secondsBetweenPolls);
+          : undefined,
+        getId: ({ post: { id } }) => id,
+        getPublished: ({ post: { published } }) => published,
+        toEntry: (postView) => ({ postView })
+      });
     }
 
     if (commentOptions) {
-      this.#runChecker(async () => {
-        const response = await this.__httpClient__.getComments({
-          type_: this.#listingType,
-          sort: commentOptions.sort
-        });
-
-        const comments = this.#filterFromResponse(response.comments);
-
-        await useDatabaseFunctions(
-          'comments',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              comments.map((commentView) =>
-                this.#handleEntry({
-                  getStorageInfo: get,
-                  upsert,
-                  options: commentOptions,
-                  entry: { commentView },
-                  id: commentView.comment.id
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, commentOptions.secondsBetweenPolls);
-    }
-
-    if (privateMessageOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { private_messages } =
-          await this.__httpClient__.getPrivateMessages({
-            limit: 50,
-            unread_only: true
+      this.#runPoller({
+        handler: 'comment',
+        connection,
+        table: 'comments',
+        options: commentOptions,
+        fetchPage: async (page) => {
+          const { comments } = await httpClient().getComments({
+            type_: connection.listingType,
+            sort: commentOptions.sort ?? 'New',
+            page,
+            limit: PAGE_LIMIT
           });
 
-        await useDatabaseFunctions(
-          'messages',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              private_messages.map(async (messageView) =>
-                Promise.all([
-                  this.#handleEntry({
-                    getStorageInfo: get,
-                    options: privateMessageOptions,
-                    entry: { messageView },
-                    id: messageView.private_message.id,
-                    upsert
-                  }),
-                  this.#performLoggedInBotAction({
-                    action: () =>
-                      this.__httpClient__.markPrivateMessageAsRead({
-                        private_message_id: messageView.private_message.id,
-                        read: true
-                      }),
-                    logMessage: `Marked private message ID ${messageView.private_message.id} from ${messageView.creator.id} as read`
-                  })
-                ])
+          return comments;
+        },
+        filter: (comments) => this.#filterFromResponse(connection, comments),
+        isNewestFirst: (commentOptions.sort ?? 'New') === 'New',
+        checkFilter: commentOptions.filter
+          ? (commentView) =>
+              checkCommentFilter(
+                commentView,
+                commentOptions.filter!,
+                this.#getBotPersonIds(connection)
               )
-            );
-          },
-          this.#dbFile
-        );
-      }, privateMessageOptions.secondsBetweenPolls);
+          : undefined,
+        getId: ({ comment: { id } }) => id,
+        getPublished: ({ comment: { published } }) => published,
+        toEntry: (commentView) => ({ commentView })
+      });
     }
 
-    if (registrationApplicationOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { registration_applications } =
-          await this.__httpClient__.listRegistrationApplications({
-            unread_only: true,
-            limit: 50
-          });
+    if (postEditOptions) {
+      this.#runPoller({
+        handler: 'postEdit',
+        connection,
+        table: 'postEdits',
+        options: postEditOptions,
+        fetchItems: () =>
+          this.#fetchEditedItems({
+            connection,
+            type: 'post',
+            options: postEditOptions,
+            fetchPage: async (page) => {
+              const { posts } = await httpClient().getPosts({
+                type_: connection.listingType,
+                sort: 'New',
+                page,
+                limit: PAGE_LIMIT
+              });
+
+              return posts;
+            },
+            getId: ({ post: { id } }) => id,
+            getPublished: ({ post: { published } }) => published,
+            getSnapshot: ({
+              post: { name, body, url, nsfw, updated }
+            }): BotPostSnapshot => ({ name, body, url, nsfw, updated }),
+            checkFilter: postEditOptions.filter
+              ? (postView) =>
+                  checkPostFilter(
+                    postView,
+                    postEditOptions.filter!,
+                    this.#getBotPersonIds(connection)
+                  )
+              : undefined
+          }),
+        getId: ({ item: { post } }) => post.id,
+        getExpiry: ({ postView: { post } }) =>
+          getEditTrackingEnd(post.published, postEditOptions.minutesToTrack),
+        toEntry: ({ item, previous }) => ({ postView: item, previous })
+      });
+    }
 
-        await useDatabaseFunctions(
-          'registrations',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              registration_applications.map((applicationView) =>
-                this.#handleEntry({
-                  getStorageInfo: get,
-                  upsert,
-                  entry: { applicationView },
-                  id: applicationView.registration_application.id,
-                  options: registrationApplicationOptions
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, registrationApplicationOptions.secondsBetweenPolls);
+    if (commentEditOptions) {
+      this.#runPoller({
+        handler: 'commentEdit',
+        connection,
+        table: 'commentEdits',
+        options: commentEditOptions,
+        fetchItems: () =>
+          this.#fetchEditedItems({
+            connection,
+            type: 'comment',
+            options: commentEditOptions,
+            fetchPage: async (page) => {
+              const { comments } = await httpClient().getComments({
+                type_: connection.listingType,
+                sort: 'New',
+                page,
+                limit: PAGE_LIMIT
+              });
+
+              return comments;
+            },
+            getId: ({ comment: { id } }) => id,
+            getPublished: ({ comment: { published } }) => published,
+            getSnapshot: ({
+              comment: { content, updated }
+            }): BotCommentSnapshot => ({ content, updated }),
+            checkFilter: commentEditOptions.filter
+              ? (commentView) =>
+                  checkCommentFilter(
+                    commentView,
+                    commentEditOptions.filter!,
+                    this.#getBotPersonIds(connection)
+                  )
+              : undefined
+          }),
+        getId: ({ item: { comment } }) => comment.id,
+        getExpiry: ({ commentView: { comment } }) =>
+          getEditTrackingEnd(
+            comment.published,
+            commentEditOptions.minutesToTrack
+          ),
+        toEntry: ({ item, previous }) => ({ commentView: item, previous })
+      });
     }
 
-    if (mentionOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { mentions } = await this.__httpClient__.getPersonMentions({
-          limit: 50,
-          unread_only: true,
-          sort: 'New'
-        });
+    if (threadWatchOptions) {
+      this.#runPoller({
+        handler: 'threadWatch',
+        connection,
+        table: 'threadComments',
+        options: threadWatchOptions,
+        fetchItems: () =>
+          this.#fetchWatchedThreadComments(connection, threadWatchOptions),
+        getId: ({ commentView: { comment } }) => comment.id,
+        toEntry: (entry) => entry
+      });
+    }
 
-        await useDatabaseFunctions(
-          'mentions',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              mentions.map((mentionView) =>
-                Promise.all([
-                  this.#handleEntry({
-                    entry: { mentionView },
-                    options: mentionOptions,
-                    getStorageInfo: get,
-                    id: mentionView.person_mention.id,
-                    upsert
-                  }),
-                  this.#performLoggedInBotAction({
-                    action: () =>
-                      this.__httpClient__.markPersonMentionAsRead({
-                        person_mention_id: mentionView.person_mention.id,
-                        read: true
-                      }),
-                    logMessage: `Marked mention ${mentionView.person_mention.id} from ${mentionView.creator.id} as read`
-                  })
-                ])
+    if (privateMessageOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'privateMessage',
+        connection,
+        table: 'messages',
+        options: privateMessageOptions,
+        fetchPage: async (page) => {
+          const { private_messages } = await httpClient().getPrivateMessages({
+            unread_only: true,
+            page,
+            limit: PAGE_LIMIT
+          });
+
+          return private_messages;
+        },
+        // While paused, only owners' control commands are handled. Other messages are left unread and unsaved
+        // so they are handled after resuming.
+        filter: (messageViews) =>
+          this.#pausedHandlers.has('privateMessage')
+            ? messageViews.filter(
+                ({ creator, private_message: { content } }) =>
+                  isOwner(creator, this.#owners, connection.instance) &&
+                  isControlCommand(content)
               )
-            );
-          },
-          this.#dbFile
-        );
-      }, mentionOptions.secondsBetweenPolls);
+            : messageViews,
+        getId: ({ private_message: { id } }) => id,
+        getPublished: ({ private_message: { published } }) => published,
+        toEntry: (messageView) => ({ messageView }),
+        onItem: (messageView) =>
+          this.#performLoggedInBotAction({
+            connection,
+            action: () =>
+              httpClient().markPrivateMessageAsRead({
+                private_message_id: messageView.private_message.id,
+                read: true
+              }),
+            dryRun: this.#dryRun.simulate('markPrivateMessageAsRead', {
+              private_message_id: messageView.private_message.id,
+              read: true
+            }),
+            logMessage: `Marked private message ID ${messageView.private_message.id} from ${messageView.creator.id} as read`
+          })
+      });
     }
 
-    if (replyOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { replies } = await this.__httpClient__.getReplies({
-          limit: 50,
-          sort: 'New',
-          unread_only: true
-        });
+    if (registrationApplicationOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'registrationApplication',
+        connection,
+        table: 'registrations',
+        options: registrationApplicationOptions,
+        fetchPage: async (page) => {
+          const { registration_applications } =
+            await httpClient().listRegistrationApplications({
+              unread_only: true,
+              page,
+              limit: PAGE_LIMIT
+            });
+
+          return registration_applications;
+        },
+        getId: ({ registration_application: { id } }) => id,
+        getPublished: ({ registration_application: { published } }) =>
+          published,
+        toEntry: (applicationView) => ({ applicationView })
+      });
+    }
 
-        await useDatabaseFunctions(
-          'replies',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              replies.map(async (replyView) =>
-                Promise.all([
-                  this.#handleEntry({
-                    entry: { replyView },
-                    options: replyOptions,
-                    getStorageInfo: get,
-                    id: replyView.comment_reply.id,
-                    upsert
-                  }),
-                  this.#performLoggedInBotAction({
-                    action: () =>
-                      this.__httpClient__.markCommentReplyAsRead({
-                        comment_reply_id: replyView.comment_reply.id,
-                        read: true
-                      }),
-                    logMessage: `Marking reply ${replyView.comment_reply.id} from ${replyView.creator.id} as read`
-                  })
-                ])
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, replyOptions.secondsBetweenPolls);
+    if (mentionOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'mention',
+        connection,
+        table: 'mentions',
+        options: mentionOptions,
+        fetchPage: async (page) => {
+          const { mentions } = await httpClient().getPersonMentions({
+            unread_only: true,
+            sort: 'New',
+            page,
+            limit: PAGE_LIMIT
+          });
+
+          return mentions;
+        },
+        getId: ({ person_mention: { id } }) => id,
+        getPublished: ({ person_mention: { published } }) => published,
+        toEntry: (mentionView) => ({ mentionView }),
+        onItem: (mentionView) =>
+          this.#performLoggedInBotAction({
+            connection,
+            action: () =>
+              httpClient().markPersonMentionAsRead({
+                person_mention_id: mentionView.person_mention.id,
+                read: true
+              }),
+            dryRun: this.#dryRun.simulate('markPersonMentionAsRead', {
+              person_mention_id: mentionView.person_mention.id,
+              read: true
+            }),
+            logMessage: `Marked mention ${mentionView.person_mention.id} from ${mentionView.creator.id} as read`
+          })
+      });
     }
 
-    if (commentReportOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { comment_reports } =
-          await this.__httpClient__.listCommentReports({
-            unresolved_only: true,
-            limit: 50
+    if (replyOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'reply',
+        connection,
+        table: 'replies',
+        options: replyOptions,
+        fetchPage: async (page) => {
+          const { replies } = await httpClient().getReplies({
+            unread_only: true,
+            sort: 'New',
+            page,
+            limit: PAGE_LIMIT
           });
 
-        await useDatabaseFunctions(
-          'commentReports',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              comment_reports.map((reportView) =>
-                this.#handleEntry({
-                  entry: { reportView },
-                  options: commentReportOptions,
-                  getStorageInfo: get,
-                  id: reportView.comment_report.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, commentReportOptions.secondsBetweenPolls);
+          return replies;
+        },
+        getId: ({ comment_reply: { id } }) => id,
+        getPublished: ({ comment_reply: { published } }) => published,
+        toEntry: (replyView) => ({ replyView }),
+        onItem: (replyView) =>
+          this.#performLoggedInBotAction({
+            connection,
+            action: () =>
+              httpClient().markCommentReplyAsRead({
+                comment_reply_id: replyView.comment_reply.id,
+                read: true
+              }),
+            dryRun: this.#dryRun.simulate('markCommentReplyAsRead', {
+              comment_reply_id: replyView.comment_reply.id,
+              read: true
+            }),
+            logMessage: `Marking reply ${replyView.comment_reply.id} from ${replyView.creator.id} as read`
+          })
+      });
     }
 
-    if (postReportOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { post_reports } = await this.__httpClient__.listPostReports({
-          unresolved_only: true,
-          limit: 50
-        });
+    if (commentReportOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'commentReport',
+        connection,
+        table: 'commentReports',
+        options: commentReportOptions,
+        fetchPage: async (page) => {
+          const { comment_reports } = await httpClient().listCommentReports({
+            unresolved_only: true,
+            page,
+            limit: PAGE_LIMIT
+          });
 
-        await useDatabaseFunctions(
-          'postReports',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              post_reports.map((reportView) =>
-                this.#handleEntry({
-                  entry: { reportView },
-                  options: postReportOptions,
-                  getStorageInfo: get,
-                  id: reportView.post_report.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, postReportOptions.secondsBetweenPolls);
+          return comment_reports;
+        },
+        getId: ({ comment_report: { id } }) => id,
+        getPublished: ({ comment_report: { published } }) => published,
+        toEntry: (reportView) => ({ reportView })
+      });
     }
 
-    if (privateMessageReportOptions && this.#credentials) {
-      this.#runChecker(async () => {
-        const { private_message_reports } =
-          await this.__httpClient__.listPrivateMessageReports({
-            limit: 50,
-            unresolved_only: true
+    if (postReportOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'postReport',
+        connection,
+        table: 'postReports',
+        options: postReportOptions,
+        fetchPage: async (page) => {
+          const { post_reports } = await httpClient().listPostReports({
+            unresolved_only: true,
+            page,
+            limit: PAGE_LIMIT
           });
 
-        if (privateMessageReportOptions) {
-          await useDatabaseFunctions(
-            'messageReports',
-            async ({ get, upsert }) => {
-              await Promise.all(
-                private_message_reports.map((reportView) =>
-                  this.#handleEntry({
-                    entry: { reportView },
-                    options: privateMessageReportOptions,
-                    getStorageInfo: get,
-                    id: reportView.private_message_report.id,
-                    upsert
-                  })
-                )
-              );
-            },
-            this.#dbFile
-          );
-        }
-      }, privateMessageReportOptions.secondsBetweenPolls);
+          return post_reports;
+        },
+        getId: ({ post_report: { id } }) => id,
+        getPublished: ({ post_report: { published } }) => published,
+        toEntry: (reportView) => ({ reportView })
+      });
+    }
+
+    if (privateMessageReportOptions && mainAccount) {
+      this.#runPoller({
+        handler: 'privateMessageReport',
+        connection,
+        table: 'messageReports',
+        options: privateMessageReportOptions,
+        fetchPage: async (page) => {
+          const { private_message_reports } =
+            await httpClient().listPrivateMessageReports({
+              unresolved_only: true,
+              page,
+              limit: PAGE_LIMIT
+            });
+
+          return private_message_reports;
+        },
+        getId: ({ private_message_report: { id } }) => id,
+        getPublished: ({ private_message_report: { published } }) => published,
+        toEntry: (reportView) => ({ reportView })
+      });
     }
 
     if (modRemovePostOptions) {
-      this.#runChecker(async () => {
-        const { removed_posts } = await this.#getModlogItems('ModRemovePost');
-
-        await useDatabaseFunctions(
-          'removedPosts',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              removed_posts.map((removedPostView) =>
-                this.#handleEntry({
-                  entry: { removedPostView },
-                  options: modRemovePostOptions,
-                  getStorageInfo: get,
-                  id: removedPostView.mod_remove_post.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modRemovePostOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modRemovePost',
+        connection,
+        table: 'removedPosts',
+        options: modRemovePostOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModRemovePost', page))
+            .removed_posts,
+        getId: ({ mod_remove_post: { id } }) => id,
+        getPublished: ({ mod_remove_post: { when_ } }) => when_,
+        toEntry: (removedPostView) => ({ removedPostView })
+      });
     }
 
     if (modLockPostOptions) {
-      this.#runChecker(async () => {
-        const { locked_posts } = await this.#getModlogItems('ModLockPost');
-
-        await useDatabaseFunctions(
-          'lockedPosts',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              locked_posts.map((lockedPostView) =>
-                this.#handleEntry({
-                  entry: { lockedPostView },
-                  options: modLockPostOptions,
-                  getStorageInfo: get,
-                  id: lockedPostView.mod_lock_post.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modLockPostOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modLockPost',
+        connection,
+        table: 'lockedPosts',
+        options: modLockPostOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModLockPost', page))
+            .locked_posts,
+        getId: ({ mod_lock_post: { id } }) => id,
+        getPublished: ({ mod_lock_post: { when_ } }) => when_,
+        toEntry: (lockedPostView) => ({ lockedPostView })
+      });
     }
 
     if (modFeaturePostOptions) {
-      this.#runChecker(async () => {
-        const { featured_posts } = await this.#getModlogItems('ModFeaturePost');
-
-        await useDatabaseFunctions(
-          'featuredPosts',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              featured_posts.map((featuredPostView) =>
-                this.#handleEntry({
-                  entry: { featuredPostView },
-                  options: modFeaturePostOptions,
-                  getStorageInfo: get,
-                  id: featuredPostView.mod_feature_post.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modFeaturePostOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modFeaturePost',
+        connection,
+        table: 'featuredPosts',
+        options: modFeaturePostOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModFeaturePost', page))
+            .featured_posts,
+        getId: ({ mod_feature_post: { id } }) => id,
+        getPublished: ({ mod_feature_post: { when_ } }) => when_,
+        toEntry: (featuredPostView) => ({ featuredPostView })
+      });
     }
 
     if (modRemoveCommentOptions) {
-      this.#runChecker(async () => {
-        const { removed_comments } =
-          await this.#getModlogItems('ModRemoveComment');
-
-        await useDatabaseFunctions(
-          'removedComments',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              removed_comments.map((removedCommentView) =>
-                this.#handleEntry({
-                  entry: { removedCommentView },
-                  options: modRemoveCommentOptions,
-                  getStorageInfo: get,
-                  id: removedCommentView.mod_remove_comment.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modRemoveCommentOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modRemoveComment',
+        connection,
+        table: 'removedComments',
+        options: modRemoveCommentOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModRemoveComment', page))
+            .removed_comments,
+        getId: ({ mod_remove_comment: { id } }) => id,
+        getPublished: ({ mod_remove_comment: { when_ } }) => when_,
+        toEntry: (removedCommentView) => ({ removedCommentView })
+      });
     }
 
     if (modRemoveCommunityOptions) {
-      this.#runChecker(async () => {
-        const { removed_communities } =
-          await this.#getModlogItems('ModRemoveCommunity');
-
-        await useDatabaseFunctions(
-          'removedCommunities',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              removed_communities.map((removedCommunityView) =>
-                this.#handleEntry({
-                  entry: { removedCommunityView },
-                  options: modRemoveCommunityOptions,
-                  getStorageInfo: get,
-                  id: removedCommunityView.mod_remove_community.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modRemoveCommunityOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modRemoveCommunity',
+        connection,
+        table: 'removedCommunities',
+        options: modRemoveCommunityOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModRemoveCommunity', page))
+            .removed_communities,
+        getId: ({ mod_remove_community: { id } }) => id,
+        getPublished: ({ mod_remove_community: { when_ } }) => when_,
+        toEntry: (removedCommunityView) => ({ removedCommunityView })
+      });
     }
 
     if (modBanFromCommunityOptions) {
-      this.#runChecker(async () => {
-        const { banned_from_community } = await this.#getModlogItems(
-          'ModBanFromCommunity'
-        );
-
-        await useDatabaseFunctions(
-          'communityBans',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              banned_from_community.map((banView) =>
-                this.#handleEntry({
-                  entry: { banView },
-                  options: modBanFromCommunityOptions,
-                  getStorageInfo: get,
-                  id: banView.mod_ban_from_community.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modBanFromCommunityOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modBanFromCommunity',
+        connection,
+        table: 'communityBans',
+        options: modBanFromCommunityOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModBanFromCommunity', page))
+            .banned_from_community,
+        getId: ({ mod_ban_from_community: { id } }) => id,
+        getPublished: ({ mod_ban_from_community: { when_ } }) => when_,
+        toEntry: (banView) => ({
+          banView,
+          ...getBanDetails(banView.mod_ban_from_community)
+        }),
+        fromStoredEntry: ({ banView }) => ({
+          banView,
+          ...getBanDetails(banView.mod_ban_from_community)
+        })
+      });
     }
 
     if (modAddModToCommunityOptions) {
-      this.#runChecker(async () => {
-        const { added_to_community } =
-          await this.#getModlogItems('ModAddCommunity');
-        await useDatabaseFunctions(
-          'modsAddedToCommunities',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              added_to_community.map((modAddedToCommunityView) =>
-                this.#handleEntry({
-                  entry: { modAddedToCommunityView },
-                  options: modAddModToCommunityOptions,
-                  getStorageInfo: get,
-                  id: modAddedToCommunityView.mod_add_community.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modAddModToCommunityOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modAddModToCommunity',
+        connection,
+        table: 'modsAddedToCommunities',
+        options: modAddModToCommunityOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModAddCommunity', page))
+            .added_to_community,
+        getId: ({ mod_add_community: { id } }) => id,
+        getPublished: ({ mod_add_community: { when_ } }) => when_,
+        toEntry: (modAddedToCommunityView) => ({ modAddedToCommunityView })
+      });
     }
 
     if (modTransferCommunityOptions) {
-      this.#runChecker(async () => {
-        const { transferred_to_community } = await this.#getModlogItems(
-          'ModTransferCommunity'
-        );
-
-        await useDatabaseFunctions(
-          'modsTransferredToCommunities',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              transferred_to_community.map((modTransferredToCommunityView) =>
-                this.#handleEntry({
-                  entry: { modTransferredToCommunityView },
-                  options: modTransferCommunityOptions,
-                  getStorageInfo: get,
-                  id: modTransferredToCommunityView.mod_transfer_community.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modTransferCommunityOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modTransferCommunity',
+        connection,
+        table: 'modsTransferredToCommunities',
+        options: modTransferCommunityOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModTransferCommunity', page))
+            .transferred_to_community,
+        getId: ({ mod_transfer_community: { id } }) => id,
+        getPublished: ({ mod_transfer_community: { when_ } }) => when_,
+        toEntry: (modTransferredToCommunityView) => ({
+          modTransferredToCommunityView
+        })
+      });
     }
 
     if (modAddAdminOptions) {
-      this.#runChecker(async () => {
-        const { added } = await this.#getModlogItems('ModAdd');
-
-        await useDatabaseFunctions(
-          'adminsAdded',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              added.map((addedAdminView) =>
-                this.#handleEntry({
-                  entry: { addedAdminView },
-                  options: modAddAdminOptions,
-                  getStorageInfo: get,
-                  upsert,
-                  id: addedAdminView.mod_add.id
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modAddAdminOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modAddAdmin',
+        connection,
+        table: 'adminsAdded',
+        options: modAddAdminOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModAdd', page)).added,
+        getId: ({ mod_add: { id } }) => id,
+        getPublished: ({ mod_add: { when_ } }) => when_,
+        toEntry: (addedAdminView) => ({ addedAdminView })
+      });
     }
 
     if (modBanFromSiteOptions) {
-      this.#runChecker(async () => {
-        const { banned } = await this.#getModlogItems('ModBan');
-
-        await useDatabaseFunctions(
-          'siteBans',
-          async ({ get, upsert }) => {
-            await Promise.all(
-              banned.map((banView) =>
-                this.#handleEntry({
-                  entry: { banView },
-                  options: modBanFromSiteOptions,
-                  getStorageInfo: get,
-                  id: banView.mod_ban.id,
-                  upsert
-                })
-              )
-            );
-          },
-          this.#dbFile
-        );
-      }, modBanFromSiteOptions.secondsBetweenPolls);
+      this.#runPoller({
+        handler: 'modBanFromSite',
+        connection,
+        table: 'siteBans',
+        options: modBanFromSiteOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModBan', page)).banned,
+        getId: ({ mod_ban: { id } }) => id,
+        getPublished: ({ mod_ban: { when_ } }) => when_,
+        toEntry: (banView) => ({ banView, ...getBanDetails(banView.mod_ban) }),
+        fromStoredEntry: ({ banView }) => ({
+          banView,
+          ...getBanDetails(banView.mod_ban)
+        })
+      });
+    }
+
+    if (modHideCommunityOptions) {
+      this.#runPoller({
+        handler: 'modHideCommunity',
+        connection,
+        table: 'hiddenCommunities',
+        options: modHideCommunityOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'ModHideCommunity', page))
+            .hidden_communities,
+        getId: ({ mod_hide_community: { id } }) => id,
+        getPublished: ({ mod_hide_community: { when_ } }) => when_,
+        toEntry: (hiddenCommunityView) => ({ hiddenCommunityView })
+      });
     }
+
+    if (adminPurgePersonOptions) {
+      this.#runPoller({
+        handler: 'adminPurgePerson',
+        connection,
+        table: 'purgedPersons',
+        options: adminPurgePersonOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'AdminPurgePerson', page))
+            .admin_purged_persons,
+        getId: ({ admin_purge_person: { id } }) => id,
+        getPublished: ({ admin_purge_person: { when_ } }) => when_,
+        toEntry: (purgedPersonView) => ({ purgedPersonView })
+      });
+    }
+
+    if (adminPurgeCommunityOptions) {
+      this.#runPoller({
+        handler: 'adminPurgeCommunity',
+        connection,
+        table: 'purgedCommunities',
+        options: adminPurgeCommunityOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'AdminPurgeCommunity', page))
+            .admin_purged_communities,
+        getId: ({ admin_purge_community: { id } }) => id,
+        getPublished: ({ admin_purge_community: { when_ } }) => when_,
+        toEntry: (purgedCommunityView) => ({ purgedCommunityView })
+      });
+    }
+
+    if (adminPurgePostOptions) {
+      this.#runPoller({
+        handler: 'adminPurgePost',
+        connection,
+        table: 'purgedPosts',
+        options: adminPurgePostOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'AdminPurgePost', page))
+            .admin_purged_posts,
+        getId: ({ admin_purge_post: { id } }) => id,
+        getPublished: ({ admin_purge_post: { when_ } }) => when_,
+        toEntry: (purgedPostView) => ({ purgedPostView })
+      });
+    }
+
+    if (adminPurgeCommentOptions) {
+      this.#runPoller({
+        handler: 'adminPurgeComment',
+        connection,
+        table: 'purgedComments',
+        options: adminPurgeCommentOptions,
+        fetchPage: async (page) =>
+          (await this.#getModlogItems(connection, 'AdminPurgeComment', page))
+            .admin_purged_comments,
+        getId: ({ admin_purge_comment: { id } }) => id,
+        getPublished: ({ admin_purge_comment: { when_ } }) => when_,
+        toEntry: (purgedCommentView) => ({ purgedCommentView })
+      });
+    }
+
+    if (modlogOptions) {
+      this.#runPoller({
+        handler: 'modlog',
+        connection,
+        table: 'modlog',
+        options: modlogOptions,
+        fetchPage: async (page) =>
+          toModlogViews(await this.#getModlogItems(connection, 'All', page)),
+        getId: getModlogId,
+        getPublished: (modlogView) => getModlogAction(modlogView).when_,
+        getGroup: ({ type }) => type,
+        toEntry: (modlogView) => ({ modlogView })
+      });
+    }
+  }
+
+  /**
+   * Number of bot actions waiting to be performed because of rate limits or retries
+   */
+  get actionQueueDepth() {
+    return this.#connections.reduce(
+      (depth, { actionQueue }) => depth + actionQueue.depth,
+      0
+    );
+  }
+
+  /**
+   * Actions the bot would have performed if it weren't in dry run mode, up to the latest 1000
+   */
+  get dryRunTranscript() {
+    return this.#dryRun.transcript;
+  }
+
+  /**
+   * Items whose handler threw, including items that have run out of attempts.
+   * Only available once the bot has started.
+   */
+  getFailedItems(table?: BotStorageTable, instance?: string) {
+    return this.#storage.getFailedItems({ table, instance });
+  }
+
+  /**
+   * Write the dry run transcript to a file as a JSON array
+   */
+  writeDryRunTranscript(filePath: string) {
+    return this.#dryRun.writeTranscript(filePath);
   }
 
-  start() {
-    this.#log('Starting bot');
+  /**
+   * Lets the test kit run the bot without timers. Not part of the public API.
+   */
+  [testHooks](): TestHooks {
+    return {
+      start: async () => {
+        this.#isRunning = true;
+        this.#isManualPolling = true;
+        await this.#runBot();
+      },
+      getPollers: () => [...this.#pollers],
+      runTasks: async () => {
+        for (const { run } of this.#tasks) {
+          await run();
+        }
+      },
+      getBotActions: () => this.#getBotActions(this.#mainConnection),
+      onAction: (listener) => {
+        this.#actionListeners.push(listener);
+      },
+      useHttpClients: (getClient) => {
+        this.__httpClient__ = getClient(this.#mainConnection.instance);
+
+        for (const connection of this.#connections) {
+          const client = getClient(connection.instance);
+          connection.httpClient &&= client;
+
+          for (const account of connection.accounts.slice(1)) {
+            account.client = client;
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Resolves once the bot has logged in and started polling. Rejects if the bot could not start.
+   */
+  async start() {
+    this.#logger.info('Starting bot');
     this.#isRunning = true;
-    this.#runBot();
+    this.#startedAt = new Date();
+
+    try {
+      if (this.#monitoring) {
+        this.#monitoringServer = await startMonitoringServer(
+          this.#monitoring,
+          {
+            getHealth: () => this.getHealth(),
+            getMetrics: () => this.getMetrics()
+          },
+          this.#logger
+        );
+      }
+
+      await this.#runBot();
+    } catch (err) {
+      this.#isRunning = false;
+      await this.#closeMonitoringServer();
+      this.#reportError(`Could not start bot: ${formatError(err)}`, err);
+
+      throw err;
+    }
   }
 
-  stop() {
-    this.#log('Stopping bot');
+  /**
+   * Stops polling and scheduled tasks, waits up to `timeoutSeconds` for polls and tasks that are running to finish,
+   * then finishes writing the dry run transcript file and closes the bot's storage
+   */
+  async stop({
+    timeoutSeconds = DEFAULT_STOP_TIMEOUT_SECONDS
+  }: { timeoutSeconds?: number } = {}) {
+    if (!this.#isRunning) {
+      return;
+    }
+
+    this.#logger.info('Stopping bot');
     this.#isRunning = false;
-    this.#isLoggedIn = false;
+
+    while (this.#timeouts.length > 0) {
+      clearTimeout(this.#timeouts.pop());
+    }
+
+    await Promise.all(this.#tasks.map(({ task }) => task.stop()));
+    await this.#drain(timeoutSeconds);
+
+    for (const { accounts } of this.#connections) {
+      for (const account of accounts) {
+        account.isLoggedIn = false;
+      }
+    }
+
+    await this.#dryRun.flush();
+    await this.#storage.close?.();
+    await this.#closeMonitoringServer();
+    this.#logger.info('Stopped bot');
+    this.emit('stopped');
+  }
+
+  /**
+   * Whether the bot is running, its accounts are logged in, and its handlers are polling.
+   * Served at `/healthz` if the `monitoring` option is set.
+   */
+  getHealth(): BotHealth {
+    const now = Date.now();
+    const missedPollsBeforeUnhealthy =
+      this.#monitoring?.missedPollsBeforeUnhealthy ??
+      DEFAULT_MISSED_POLLS_BEFORE_UNHEALTHY;
+
+    const accounts = this.#connections.flatMap(({ instance, accounts }) =>
+      accounts.map(({ name, isLoggedIn }) => ({
+        instance,
+        account: name,
+        loggedIn: isLoggedIn
+      }))
+    );
+    const handlers = this.#pollers.map(
+      ({ instance, handler, secondsBetweenPolls, lastSuccessfulPoll }) => {
+        const paused = this.#pausedHandlers.has(handler);
+
+        return {
+          instance,
+          handler,
+          lastSuccessfulPoll: lastSuccessfulPoll ?? null,
+          paused,
+          healthy:
+            paused ||
+            now - (lastSuccessfulPoll ?? this.#startedAt ?? now).valueOf() <=
+              1000 * secondsBetweenPolls * (missedPollsBeforeUnhealthy + 1)
+        };
+      }
+    );
+
+    return {
+      healthy:
+        this.#isRunning &&
+        accounts.every(({ loggedIn }) => loggedIn) &&
+        handlers.every(({ healthy }) => healthy),
+      running: this.#isRunning,
+      accounts,
+      handlers
+    };
+  }
+
+  /**
+   * Metrics in the Prometheus text format. Served at `/metrics` if the `monitoring` option is set.
+   */
+  getMetrics() {
+    for (const { instance, accounts, actionQueue } of this.#connections) {
+      this.#metrics.actionQueueDepth.set({ instance }, actionQueue.depth);
+
+      for (const { name, isLoggedIn } of accounts) {
+        this.#metrics.loggedIn.set(
+          { instance, account: name },
+          isLoggedIn ? 1 : 0
+        );
+      }
+    }
+
+    return this.#metrics.render();
+  }
+
+  async #closeMonitoringServer() {
+    if (this.#monitoringServer) {
+      await closeMonitoringServer(this.#monitoringServer);
+      this.#monitoringServer = undefined;
+    }
   }
 
-  async #login() {
-    if (this.#credentials) {
-      this.#log('Logging in');
-      const loginRes = await this.__httpClient__.login({
-        password: this.#credentials.password,
-        username_or_email: this.#credentials.username
+  async #drain(timeoutSeconds: number) {
+    if (this.#inFlight.size === 0) {
+      return;
+    }
+
+    this.#logger.info(
+      `Waiting for ${this.#inFlight.size} running polls and tasks to finish`
+    );
+
+    let timeout: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      Promise.allSettled([...this.#inFlight]).then(() => true),
+      new Promise<false>((resolve) => {
+        timeout = setTimeout(() => resolve(false), 1000 * timeoutSeconds);
+      })
+    ]);
+    clearTimeout(timeout);
+
+    if (!drained) {
+      this.#logger.warn(
+        `Stopped waiting after ${timeoutSeconds} seconds. ${this.#inFlight.size} polls and tasks are still running`
+      );
+    }
+  }
+
+  /**
+   * Uses a JWT from a previous run of the bot if the instance still accepts it
+   */
+  async #resumeSession(httpClient: LemmyHttp, jwt: string) {
+    setAuthHeaders(httpClient, jwt);
+
+    try {
+      await httpClient.validateAuth();
+
+      return true;
+    } catch (err) {
+      this.#logger.info(
+        `Stored session is no longer valid: ${formatError(err)}`
+      );
+
+      return false;
+    }
+  }
+
+  /**
+   * Marks an account as logged out after the instance rejected its session, so it logs in again before its next action.
+   * Does nothing if the account has logged in again since `jwt` was rejected.
+   */
+  async #expireSession(
+    connection: Connection,
+    account: Account,
+    jwt: string | undefined
+  ) {
+    if (!account.isLoggedIn || account.jwt !== jwt) {
+      return;
+    }
+
+    this.#logger.warn('Session expired. Logging in again', {
+      instance: connection.instance,
+      account: account.name
+    });
+    account.isLoggedIn = false;
+    account.jwt = undefined;
+    await connection.sessions.delete(
+      account.credentials.username.toLowerCase()
+    );
+  }
+
+  /**
+   * Logs an account in. Concurrent calls for the same account wait for the same login.
+   */
+  #login(connection: Connection, account: Account) {
+    const labels = { instance: connection.instance, account: account.name };
+
+    account.login ??= this.#logger
+      .run(labels, () => this.#performLogin(connection, account))
+      .then(
+        () => this.#metrics.logins.inc({ ...labels, result: 'success' }),
+        (err) => {
+          this.#metrics.logins.inc({ ...labels, result: 'failure' });
+
+          throw err;
+        }
+      )
+      .finally(() => {
+        account.login = undefined;
       });
 
-      this.#log('Logged in');
-      this.__httpClient__.setHeaders({
-        Authorization: `Bearer ${loginRes.jwt}`
+    return account.login;
+  }
+
+  async #performLogin(connection: Connection, account: Account) {
+    const httpClient = this.#getHttpClient(connection, account);
+    const { username, password, totpSecret } = account.credentials;
+    const sessionKey = username.toLowerCase();
+    const storedJwt = await connection.sessions.get<string>(sessionKey);
+
+    if (storedJwt && (await this.#resumeSession(httpClient, storedJwt))) {
+      this.#logger.info('Resumed stored session');
+      account.jwt = storedJwt;
+    } else {
+      this.#logger.info('Logging in');
+      const { jwt } = await httpClient.login({
+        password,
+        username_or_email: username,
+        totp_2fa_token: totpSecret && generateTotp(totpSecret)
       });
-      this.#isLoggedIn = true;
 
-      if (this.#markAsBot) {
-        this.#log('Marking account as bot account');
+      this.#logger.info('Logged in');
+      setAuthHeaders(httpClient, jwt);
+      account.jwt = jwt;
 
-        await this.__httpClient__
-          .saveUserSettings({
-            bot_account: true
-          })
-          .catch(console.error);
+      if (jwt) {
+        await connection.sessions.set(sessionKey, jwt);
       }
     }
+
+    account.isLoggedIn = true;
+    this.emit('loggedIn', {
+      instance: connection.instance,
+      account: account.name
+    });
+
+    await httpClient
+      .getSite()
+      .then(({ site_view: { local_site_rate_limit }, my_user }) => {
+        connection.actionQueue.setRateLimits(
+          rateLimitsFromSite(local_site_rate_limit)
+        );
+
+        if (my_user) {
+          account.personId = my_user.local_user_view.person.id;
+
+          if (account === this.#mainConnection.accounts[0]) {
+            this.#dryRun.botPerson = my_user.local_user_view.person;
+          }
+        }
+      })
+      .catch(() =>
+        this.#logger.warn(
+          'Could not get rate limits from instance. Using default rate limits'
+        )
+      );
+
+    if (this.#markAsBot && this.#isDryRun) {
+      this.#logger.info('Dry run: not marking account as bot account');
+    } else if (this.#markAsBot) {
+      this.#logger.info('Marking account as bot account');
+
+      await httpClient
+        .saveUserSettings({
+          bot_account: true
+        })
+        .catch((err) =>
+          this.#logger.error(
+            `Could not mark account as bot account: ${err?.message ?? err}`
+          )
+        );
+    }
+  }
+
+  #createHttpClient(instance: string) {
+    const httpClient = new LemmyHttp(
+      `http${this.#secure ? 's' : ''}://${instance}`
+    );
+    httpClient.setHeaders({ 'user-agent': USER_AGENT });
+
+    return httpClient;
+  }
+
+  #getHttpClient(connection: Connection, account?: Account) {
+    return account?.client ?? connection.httpClient ?? this.__httpClient__;
   }
 
-  async #getCommunityIdsForAllowList() {
+  /**
+   * Bot actions performed by the instance's main account
+   */
+  #getBotActions(connection: Connection) {
+    return this.#instanceBotActions.get(connection.instance)!;
+  }
+
+  /**
+   * IDs of the bot's accounts on the instance that have logged in
+   */
+  #getBotPersonIds(connection: Connection) {
+    return connection.accounts.flatMap(({ personId }) =>
+      personId === undefined ? [] : [personId]
+    );
+  }
+
+  async #getCommunityIdsForAllowList(connection: Connection) {
     await Promise.allSettled(
       this.#assignOptionsToMaps(
-        this.#federationOptions.allowList,
+        connection,
+        connection.federationOptions.allowList,
         'allowMap'
       ).concat(
-        this.#assignOptionsToMaps(this.#federationOptions.blockList, 'blockMap')
+        this.#assignOptionsToMaps(
+          connection,
+          connection.federationOptions.blockList,
+          'blockMap'
+        )
       )
     );
   }
 
   #assignOptionsToMaps(
+    connection: Connection,
     list: BotInstanceList | undefined,
     map: 'allowMap' | 'blockMap'
   ) {
+    const federationOptionMaps = connection.federationOptionMaps;
+
     return (
       list?.map(async (instanceOptions) => {
         if (
           typeof instanceOptions === 'string' &&
-          !this.#federationOptionMaps[map].get(instanceOptions)
+          !federationOptionMaps[map].get(instanceOptions)
         ) {
-          this.#federationOptionMaps[map].set(instanceOptions, true);
+          federationOptionMaps[map].set(instanceOptions, true);
         } else if (
-          !this.#federationOptionMaps[map].get(
+          !federationOptionMaps[map].get(
             (instanceOptions as BotInstanceFederationOptions).instance
           )
         ) {
-          this.#federationOptionMaps[map].set(
+          federationOptionMaps[map].set(
             (instanceOptions as BotInstanceFederationOptions).instance,
             new Set(
               (
@@ -1101,11 +2126,13 @@ class LemmyBot {
                     instanceOptions as BotInstanceFederationOptions
                   ).communities.map(async (c) => {
                     try {
-                      return await this.#botActions.getCommunity({
-                        name: `${c}@${(instanceOptions as BotInstanceFederationOptions).instance}`
-                      });
+                      return await this.#getBotActions(connection).getCommunity(
+                        {
+                          name: `${c}@${(instanceOptions as BotInstanceFederationOptions).instance}`
+                        }
+                      );
                     } catch (e) {
-                      console.log(
+                      this.#logger.warn(
                         `Could not get !${c}@${
                           (instanceOptions as BotInstanceFederationOptions)
                             .instance
@@ -1134,57 +2161,357 @@ class LemmyBot {
     THandledItem,
     TOptions extends Record<string, any> = Record<string, never>
   >({
-    getStorageInfo,
-    upsert,
+    handler,
+    connection,
+    table,
     options,
     id,
     entry
   }: {
-    getStorageInfo: StorageInfoGetter;
-    upsert: RowUpserter;
+    handler: keyof InternalHandlers;
+    connection: Connection;
+    table: BotStorageTable;
     options: BotHandlerOptions<THandledItem, TOptions>;
     id: number;
     entry: THandledItem;
   }) {
-    const storageInfo = await getStorageInfo(id);
+    const storageInfo = await this.#storage.get(connection.instance, table, id);
     if (shouldProcess(storageInfo)) {
-      const { get, preventReprocess, reprocess } = new ReprocessHandler(
-        options?.minutesUntilReprocess ?? this.#defaultMinutesUntilReprocess
-      );
+      await this.#runHandler({
+        handler,
+        connection,
+        table,
+        options,
+        id,
+        entry,
+        attempt: 1
+      });
+    }
+  }
 
+  /**
+   * Runs a handler for an item. If the handler throws, the item is recorded as failed
+   * so that it can be retried instead of the error reaching the poller.
+   */
+  async #runHandler<
+    THandledItem,
+    TOptions extends Record<string, any> = Record<string, never>
+  >({
+    handler,
+    connection,
+    table,
+    options,
+    id,
+    entry,
+    attempt,
+    expires
+  }: {
+    handler: keyof InternalHandlers;
+    connection: Connection;
+    table: BotStorageTable;
+    options: BotHandlerOptions<THandledItem, TOptions>;
+    id: number;
+    entry: THandledItem;
+    attempt: number;
+    /**
+     * When the item's record can be pruned if the handler doesn't set a reprocess time
+     */
+    expires?: Date;
+  }) {
+    const { get, preventReprocess, reprocess } = new ReprocessHandler(
+      options?.minutesUntilReprocess ?? this.#defaultMinutesUntilReprocess
+    );
+    const labels = { instance: connection.instance, handler };
+    const startTime = Date.now();
+
+    try {
       await options!.handle!({
-        botActions: this.#botActions,
+        botActions: this.#getBotActions(connection),
         preventReprocess,
         reprocess,
-        __httpClient__: this.__httpClient__,
+        instance: connection.instance,
+        state: connection.state,
+        __httpClient__: this.#getHttpClient(connection),
         ...entry
       });
+    } catch (error) {
+      this.#metrics.handlerDuration.observe(
+        labels,
+        (Date.now() - startTime) / 1000
+      );
+      this.#metrics.handlerFailures.inc(labels);
+      await this.#recordFailure({
+        handler,
+        instance: connection.instance,
+        table,
+        id,
+        entry,
+        attempt,
+        error
+      });
+
+      return;
+    }
+
+    this.#metrics.handlerDuration.observe(
+      labels,
+      (Date.now() - startTime) / 1000
+    );
+    this.#metrics.itemsHandled.inc(labels);
+
+    await this.#storage.upsert(
+      connection.instance,
+      table,
+      id,
+      futureMinutesToDate(get()) ?? expires ?? null
+    );
+
+    if (attempt > 1) {
+      await this.#storage.deleteFailedItem(connection.instance, table, id);
+    }
+  }
+
+  async #recordFailure({
+    handler,
+    instance,
+    table,
+    id,
+    entry,
+    attempt,
+    error
+  }: {
+    handler: keyof InternalHandlers;
+    instance: string;
+    table: BotStorageTable;
+    id: number;
+    entry: unknown;
+    attempt: number;
+    error: unknown;
+  }) {
+    const message = formatError(error);
+    const nextAttemptTime =
+      attempt < this.#maxAttempts
+        ? new Date(
+            Date.now() +
+              1000 * 60 * this.#minutesBetweenAttempts * 2 ** (attempt - 1)
+          )
+        : null;
+
+    this.#reportError(
+      nextAttemptTime
+        ? `Handler failed on attempt ${attempt}: ${message}. Retrying at ${nextAttemptTime.toISOString()}`
+        : `Handler failed on attempt ${attempt}: ${message}. Giving up`,
+      error
+    );
+
+    try {
+      await this.#onError?.(error, {
+        handler,
+        instance,
+        item: entry,
+        attempt
+      });
+    } catch (onErrorError) {
+      this.#logger.error(`onError threw: ${formatError(onErrorError)}`);
+    }
+
+    await this.#storage.upsertFailedItem({
+      instance,
+      table,
+      id,
+      item: entry,
+      attempts: attempt,
+      error: message,
+      nextAttemptTime
+    });
+    await this.#storage.upsert(instance, table, id, null);
+  }
 
-      await upsert(id, get());
+  /**
+   * Records an item that doesn't pass its handler's filter. Items that may pass later are recorded as ready to
+   * reprocess, so they are checked again whenever they are fetched.
+   */
+  async #markSkipped(
+    { instance }: Connection,
+    table: BotStorageTable,
+    id: number,
+    mayPassLater: boolean
+  ) {
+    if (!(await this.#storage.get(instance, table, id)).exists) {
+      this.#logger.debug(
+        mayPassLater
+          ? 'Skipping item that does not pass filter yet'
+          : 'Skipping item that does not pass filter'
+      );
+      await this.#storage.upsert(
+        instance,
+        table,
+        id,
+        mayPassLater ? new Date() : null
+      );
     }
   }
 
-  #filterFromResponse<T extends PostView | CommentView>(response: T[]) {
-    if ((this.#federationOptions.allowList?.length ?? 0) > 0) {
+  async #retryFailedItems<
+    THandledItem,
+    TOptions extends Record<string, any> = Record<string, never>
+  >({
+    handler,
+    connection,
+    table,
+    options,
+    getExpiry,
+    fromStoredEntry = (entry) => entry
+  }: {
+    handler: keyof InternalHandlers;
+    connection: Connection;
+    table: BotStorageTable;
+    options: BotHandlerOptions<THandledItem, TOptions>;
+    getExpiry?: (entry: THandledItem) => Date;
+    fromStoredEntry?: (entry: THandledItem) => THandledItem;
+  }) {
+    const failedItems = await this.#storage.getFailedItems({
+      instance: connection.instance,
+      table,
+      dueBefore: new Date()
+    });
+
+    await Promise.all(
+      failedItems.map(({ id, item, attempts }) =>
+        this.#logger.run({ itemId: id }, () => {
+          this.#logger.info(`Retrying item after ${attempts} failed attempts`);
+          const entry = fromStoredEntry(item as THandledItem);
+
+          return this.#runHandler({
+            handler,
+            connection,
+            table,
+            options,
+            id,
+            entry,
+            attempt: attempts + 1,
+            expires: getExpiry?.(entry)
+          });
+        })
+      )
+    );
+  }
+
+  /**
+   * Wraps the options of a handler for items that can contain commands so that commands are run instead of the
+   * handler. Creates options for the handler if commands are configured but the handler isn't.
+   */
+  #withCommands<THandledItem>(
+    options: BotHandlerOptions<THandledItem> | undefined,
+    getSource: (entry: THandledItem) => BotCommandSource
+  ): BotHandlerOptions<THandledItem> | undefined {
+    const commandRouter = this.#commandRouter;
+
+    if (!commandRouter) {
+      return options;
+    }
+
+    return {
+      ...options,
+      handle: async (handlerOptions) => {
+        const isCommand = await commandRouter.dispatch({
+          source: getSource(handlerOptions),
+          instance: handlerOptions.instance,
+          botActions: handlerOptions.botActions,
+          state: handlerOptions.state,
+          __httpClient__: handlerOptions.__httpClient__
+        });
+
+        if (!isCommand) {
+          await options?.handle(handlerOptions);
+        }
+      }
+    };
+  }
+
+  /**
+   * Wraps the private message handler's options so that control commands from the bot's owners are run
+   * instead of the handler. Creates options for the handler if the bot has owners but no private message handler.
+   */
+  #withControlChannel(
+    connection: Connection,
+    options: BotHandlerOptions<{ messageView: PrivateMessageView }> | undefined
+  ): BotHandlerOptions<{ messageView: PrivateMessageView }> | undefined {
+    if (this.#owners.length === 0) {
+      return options;
+    }
+
+    const controls = {
+      getHealth: () => this.getHealth(),
+      isDryRun: () => this.#isDryRun,
+      setDryRun: (dryRun: boolean) => {
+        this.#isDryRun = dryRun;
+      },
+      actionQueueDepth: () => this.actionQueueDepth,
+      pausedHandlers: this.#pausedHandlers,
+      reload: () => {
+        setTimeout(() =>
+          this.stop()
+            .then(() => this.start())
+            .catch((err) =>
+              this.#reportError(`Could not reload: ${formatError(err)}`, err)
+            )
+        );
+      },
+      stop: () => {
+        setTimeout(() => this.stop());
+      }
+    };
+
+    return {
+      ...options,
+      handle: async (handlerOptions) => {
+        const {
+          messageView: { creator, private_message }
+        } = handlerOptions;
+        const reply =
+          isOwner(creator, this.#owners, connection.instance) &&
+          runControlCommand(private_message.content, controls);
+
+        if (reply) {
+          this.#logger.info(
+            `${creator.name} ran control command: ${private_message.content}`
+          );
+          await this.#getBotActions(connection).sendPrivateMessage({
+            recipient_id: creator.id,
+            content: reply
+          });
+        } else {
+          await options?.handle(handlerOptions);
+        }
+      }
+    };
+  }
+
+  #filterFromResponse<T extends { community: Community }>(
+    { federationOptions, federationOptionMaps }: Connection,
+    response: T[]
+  ) {
+    if ((federationOptions.allowList?.length ?? 0) > 0) {
       return response.filter(({ community: { actor_id, id } }) => {
         const instance = extractInstanceFromActorId(actor_id);
 
         return (
-          this.#federationOptionMaps.allowMap.get(instance) === true ||
+          federationOptionMaps.allowMap.get(instance) === true ||
           (
-            this.#federationOptionMaps.allowMap.get(instance) as
+            federationOptionMaps.allowMap.get(instance) as
               | Set<number>
               | undefined
           )?.has(id)
         );
       });
-    } else if ((this.#federationOptions.blockList?.length ?? 0) > 0) {
+    } else if ((federationOptions.blockList?.length ?? 0) > 0) {
       return response.filter((d) => {
         const instance = extractInstanceFromActorId(d.community.actor_id);
         return !(
-          this.#federationOptionMaps.blockMap.get(instance) === true ||
+          federationOptionMaps.blockMap.get(instance) === true ||
           (
-            this.#federationOptionMaps.blockMap.get(instance) as
+            federationOptionMaps.blockMap.get(instance) as
               | Set<number>
               | undefined
           )?.has(d.community.id)
@@ -1195,41 +2522,895 @@ class LemmyBot {
     }
   }
 
-  #getModlogItems = (type: ModlogActionType) =>
-    this.__httpClient__.getModlog({
+  #getModlogItems = (
+    connection: Connection,
+    type: ModlogActionType,
+    page: number
+  ) =>
+    this.#getHttpClient(connection).getModlog({
       type_: type,
-      limit: 50
+      page,
+      limit: PAGE_LIMIT
     });
 
+  /**
+   * Creates the bot actions performed by an account, or by no account if the instance has no accounts
+   */
+  #createBotActions(connection: Connection, account?: Account): BotActions {
+    const httpClient = () => this.#getHttpClient(connection, account);
+    const performAction = <T>(options: BotActionOptions<T>) =>
+      this.#performLoggedInBotAction({ ...options, connection, account });
+    const botActions: Omit<BotActions, 'as'> = {
+      createPost: (form) =>
+        performAction({
+          logMessage: 'Creating post',
+          action: () => httpClient().createPost(form),
+          rateLimitType: 'post',
+          dryRun: this.#dryRun.simulate('createPost', form)
+        }),
+      editPost: (form) =>
+        performAction({
+          logMessage: `Editing post ID ${form.post_id}`,
+          action: () =>
+            httpClient().editPost({
+              ...form
+            }),
+          dryRun: this.#dryRun.simulate('editPost', form)
+        }),
+      reportPost: (form) =>
+        performAction({
+          logMessage: `Reporting to post ID ${form.post_id} for ${form.reason}`,
+          action: () => httpClient().createPostReport(form),
+          dryRun: this.#dryRun.simulate('reportPost', form)
+        }),
+      votePost: (form) => {
+        const score = correctVote(form.score);
+        const prefix =
+          score === Vote.Upvote
+            ? 'Up'
+            : score === Vote.Downvote
+              ? 'Down'
+              : 'Un';
+
+        return performAction({
+          logMessage: `${prefix}voting post ID ${form.post_id}`,
+          action: () =>
+            httpClient().likePost({
+              ...form,
+              score
+            }),
+          dryRun: this.#dryRun.simulate('votePost', { ...form, score })
+        });
+      },
+      getPostVotes: (form) =>
+        performAction({
+          logMessage: `Getting votes for post ${form.post_id}`,
+          action: () => httpClient().listPostLikes(form)
+        }),
+      createComment: (form) =>
+        performAction({
+          logMessage: form.parent_id
+            ? `Replying to comment ID ${form.parent_id}`
+            : `Replying to post ID ${form.post_id}`,
+          action: () => httpClient().createComment(form),
+          rateLimitType: 'comment',
+          dryRun: this.#dryRun.simulate('createComment', form)
+        }),
+      editComment: (form) =>
+        performAction({
+          logMessage: `Editing comment ID ${form.comment_id}`,
+          action: () => httpClient().editComment(form),
+          dryRun: this.#dryRun.simulate('editComment', form)
+        }),
+      reportComment: (form) =>
+        performAction({
+          action: () => httpClient().createCommentReport(form),
+          logMessage: `Reporting to comment ID ${form.comment_id} for ${form.reason}`,
+          dryRun: this.#dryRun.simulate('reportComment', form)
+        }),
+      distinguishComment: (form) =>
+        performAction({
+          logMessage: `Distinguishing comment ${form.comment_id}`,
+          action: () => httpClient().distinguishComment(form),
+          dryRun: this.#dryRun.simulate('distinguishComment', form)
+        }),
+      voteComment: async (form) => {
+        const score = correctVote(form.score);
+        const prefix =
+          score === Vote.Upvote
+            ? 'Up'
+            : score === Vote.Downvote
+              ? 'Down'
+              : 'Un';
+
+        return await performAction({
+          logMessage: `${prefix}voting comment ID ${form.comment_id}`,
+          action: () =>
+            httpClient().likeComment({
+              ...form,
+
+              score
+            }),
+          dryRun: this.#dryRun.simulate('voteComment', { ...form, score })
+        });
+      },
+      getCommentVotes: (form) =>
+        performAction({
+          logMessage: `Getting votes for comment ID ${form.comment_id}`,
+          action: () => httpClient().listCommentLikes(form)
+        }),
+      getCommunity: (form) =>
+        performAction({
+          logMessage: `Getting community ${form.id ? form.id : form.name}`,
+          action: () => httpClient().getCommunity(form)
+        }),
+      createCommunity: (form) =>
+        performAction({
+          logMessage: `Creating community ${form.name}`,
+          action: () => httpClient().createCommunity(form),
+          dryRun: this.#dryRun.simulate('createCommunity', form)
+        }),
+      editCommunity: (form) =>
+        performAction({
+          logMessage: `Editing community ID ${form.community_id}`,
+          action: () => httpClient().editCommunity(form),
+          dryRun: this.#dryRun.simulate('editCommunity', form)
+        }),
+      addModToCommunity: (form) =>
+        performAction({
+          logMessage: `${form.added ? 'Adding' : 'Removing'} user ID ${form.person_id} as moderator of community ID ${form.community_id}`,
+          action: () => httpClient().addModToCommunity(form),
+          dryRun: this.#dryRun.simulate('addModToCommunity', form)
+        }),
+      transferCommunity: (form) =>
+        performAction({
+          logMessage: `Transferring community ID ${form.community_id} to user ID ${form.person_id}`,
+          action: () => httpClient().transferCommunity(form),
+          dryRun: this.#dryRun.simulate('transferCommunity', form)
+        }),
+      hideCommunity: (form) =>
+        performAction({
+          logMessage: `${form.hidden ? 'Hiding' : 'Unhiding'} community ID ${form.community_id}`,
+          action: () => httpClient().hideCommunity(form),
+          dryRun: this.#dryRun.simulate('hideCommunity', form)
+        }),
+      ensureModerator: async ({ community, person }) => {
+        const { moderators } = await botActions.getCommunity({
+          id: community.id
+        });
+
+        if (moderators.some(({ moderator }) => moderator.id === person.id)) {
+          return false;
+        }
+
+        await botActions.addModToCommunity({
+          community_id: community.id,
+          person_id: person.id,
+          added: true
+        });
+
+        return true;
+      },
+      deletePost: (form) =>
+        performAction({
+          logMessage: `${form.deleted ? 'Deleting' : 'Restoring'} post ID ${form.post_id}`,
+          action: () => httpClient().deletePost(form),
+          dryRun: this.#dryRun.simulate('deletePost', form)
+        }),
+      deleteComment: (form) =>
+        performAction({
+          logMessage: `${form.deleted ? 'Deleting' : 'Restoring'} comment ID ${form.comment_id}`,
+          action: () => httpClient().deleteComment(form),
+          dryRun: this.#dryRun.simulate('deleteComment', form)
+        }),
+      editPrivateMessage: (form) =>
+        performAction({
+          logMessage: `Editing private message ID ${form.private_message_id}`,
+          action: () => httpClient().editPrivateMessage(form),
+          dryRun: this.#dryRun.simulate('editPrivateMessage', form)
+        }),
+      deletePrivateMessage: (form) =>
+        performAction({
+          logMessage: `${form.deleted ? 'Deleting' : 'Restoring'} private message ID ${form.private_message_id}`,
+          action: () => httpClient().deletePrivateMessage(form),
+          dryRun: this.#dryRun.simulate('deletePrivateMessage', form)
+        }),
+      savePost: (form) =>
+        performAction({
+          logMessage: `${form.save ? 'Saving' : 'Unsaving'} post ID ${form.post_id}`,
+          action: () => httpClient().savePost(form),
+          dryRun: this.#dryRun.simulate('savePost', form)
+        }),
+      saveComment: (form) =>
+        performAction({
+          logMessage: `${form.save ? 'Saving' : 'Unsaving'} comment ID ${form.comment_id}`,
+          action: () => httpClient().saveComment(form),
+          dryRun: this.#dryRun.simulate('saveComment', form)
+        }),
+      blockPerson: (form) =>
+        performAction({
+          logMessage: `${form.block ? 'Blocking' : 'Unblocking'} user ID ${form.person_id}`,
+          action: () => httpClient().blockPerson(form),
+          dryRun: this.#dryRun.simulate('blockPerson', form)
+        }),
+      blockCommunity: (form) =>
+        performAction({
+          logMessage: `${form.block ? 'Blocking' : 'Unblocking'} community ID ${form.community_id}`,
+          action: () => httpClient().blockCommunity(form),
+          dryRun: this.#dryRun.simulate('blockCommunity', form)
+        }),
+      blockInstance: (form) =>
+        performAction({
+          logMessage: `${form.block ? 'Blocking' : 'Unblocking'} instance ID ${form.instance_id}`,
+          action: () => httpClient().blockInstance(form),
+          dryRun: this.#dryRun.simulate('blockInstance', form)
+        }),
+      markAllAsRead: () =>
+        performAction({
+          logMessage: 'Marking all notifications as read',
+          action: () => httpClient().markAllAsRead(),
+          dryRun: this.#dryRun.simulate('markAllAsRead', undefined)
+        }),
+      saveUserSettings: (form) =>
+        performAction({
+          logMessage: 'Saving user settings',
+          action: () => httpClient().saveUserSettings(form),
+          dryRun: this.#dryRun.simulate('saveUserSettings', form)
+        }),
+      getUnreadCounts: () =>
+        performAction({
+          logMessage: 'Getting unread counts',
+          action: () => httpClient().getUnreadCount()
+        }),
+      banFromCommunity: (form) =>
+        performAction({
+          logMessage: `Banning user ID ${form.person_id} from ${form.community_id}`,
+          action: () => httpClient().banFromCommunity(form),
+          dryRun: this.#dryRun.simulate('banFromCommunity', form)
+        }),
+      banFromSite: (form) =>
+        performAction({
+          logMessage: `Banning user ID ${form.person_id} from ${connection.instance}`,
+          action: () => httpClient().banPerson(form),
+          dryRun: this.#dryRun.simulate('banFromSite', form)
+        }),
+      sendPrivateMessage: (form) =>
+        performAction({
+          logMessage: `Sending private message to user ID ${form.recipient_id}`,
+          action: () => httpClient().createPrivateMessage(form),
+          dryRun: this.#dryRun.simulate('sendPrivateMessage', form)
+        }),
+      reportPrivateMessage: (form) =>
+        performAction({
+          logMessage: `Reporting private message ID ${form.private_message_id}. Reason: ${form.reason}`,
+          action: () => httpClient().createPrivateMessageReport(form),
+          dryRun: this.#dryRun.simulate('reportPrivateMessage', form)
+        }),
+      approveRegistrationApplication: (form: ApproveRegistrationApplication) =>
+        performAction({
+          logMessage: `Approving application ID ${form.id}`,
+          action: () => httpClient().approveRegistrationApplication(form),
+          dryRun: this.#dryRun.simulate('approveRegistrationApplication', form)
+        }),
+      removePost: (form) =>
+        performAction({
+          logMessage: `Removing post ID ${form.post_id}`,
+          action: () => httpClient().removePost(form),
+          dryRun: this.#dryRun.simulate('removePost', form)
+        }),
+      removeComment: (form) =>
+        performAction({
+          logMessage: `Removing comment ID ${form.comment_id}`,
+          action: () => httpClient().removeComment(form),
+          dryRun: this.#dryRun.simulate('removeComment', form)
+        }),
+      resolvePostReport: (form) =>
+        performAction({
+          logMessage: `Resolving post report ID ${form.report_id}`,
+          action: () => httpClient().resolvePostReport(form),
+          dryRun: this.#dryRun.simulate('resolvePostReport', form)
+        }),
+      resolveCommentReport: (form) =>
+        performAction({
+          logMessage: `Resolving comment report ID ${form.report_id}`,
+          action: () => httpClient().resolveCommentReport(form),
+          dryRun: this.#dryRun.simulate('resolveCommentReport', form)
+        }),
+      resolvePrivateMessageReport: (form) =>
+        performAction({
+          logMessage: `Resolving private message report ID ${form.report_id}`,
+          action: () => httpClient().resolvePrivateMessageReport(form),
+          dryRun: this.#dryRun.simulate('resolvePrivateMessageReport', form)
+        }),
+      removeAllByPerson: async ({
+        person,
+        community,
+        since,
+        reason,
+        ban = false
+      }) => {
+        const isRecent = (published: string) =>
+          !since || new Date(published) >= since;
+        const isLastPage = (items: string[]) =>
+          items.length < PAGE_LIMIT || !isRecent(items[items.length - 1]);
+        const posts: PostView[] = [];
+        const comments: CommentView[] = [];
+
+        // Everything is fetched before anything is removed, so removals can't shift the pages
+        for (let page = 1; ; ++page) {
+          const response = await performAction({
+            logMessage: `Getting content by user ID ${person.id}: page ${page}`,
+            action: () =>
+              httpClient().getPersonDetails({
+                person_id: person.id,
+                community_id: community?.id,
+                sort: 'New',
+                page,
+                limit: PAGE_LIMIT
+              })
+          });
+          posts.push(
+            ...this.#filterFromResponse(connection, response.posts).filter(
+              ({ post }) => isRecent(post.published)
+            )
+          );
+          comments.push(
+            ...this.#filterFromResponse(connection, response.comments).filter(
+              ({ comment }) => isRecent(comment.published)
+            )
+          );
+
+          if (
+            isLastPage(response.posts.map(({ post }) => post.published)) &&
+            isLastPage(
+              response.comments.map(({ comment }) => comment.published)
+            )
+          ) {
+            break;
+          }
+        }
+
+        const summary: BotRemovalSummary = {
+          removedPostIds: [],
+          removedCommentIds: [],
+          resolvedPostReportIds: [],
+          resolvedCommentReportIds: [],
+          banned: false
+        };
+
+        for (const { post } of posts.filter(({ post }) => !post.removed)) {
+          await botActions.removePost({
+            post_id: post.id,
+            removed: true,
+            reason
+          });
+          summary.removedPostIds.push(post.id);
+        }
+
+        for (const { comment } of comments.filter(
+          ({ comment }) => !comment.removed
+        )) {
+          await botActions.removeComment({
+            comment_id: comment.id,
+            removed: true,
+            reason
+          });
+          summary.removedCommentIds.push(comment.id);
+        }
+
+        const postIds = new Set(posts.map(({ post }) => post.id));
+        const commentIds = new Set(comments.map(({ comment }) => comment.id));
+        const reports: BotReport[] = [];
+
+        for (const type of ['post', 'comment'] as const) {
+          for await (const report of botActions.listReports({
+            type,
+            unresolved_only: true,
+            community_id: community?.id
+          })) {
+            reports.push(report);
+          }
+        }
+
+        for (const report of reports) {
+          if (
+            report.type === 'post' &&
+            postIds.has(report.reportView.post.id)
+          ) {
+            await botActions.resolvePostReport({
+              report_id: report.reportView.post_report.id,
+              resolved: true
+            });
+            summary.resolvedPostReportIds.push(
+              report.reportView.post_report.id
+            );
+          } else if (
+            report.type === 'comment' &&
+            commentIds.has(report.reportView.comment.id)
+          ) {
+            await botActions.resolveCommentReport({
+              report_id: report.reportView.comment_report.id,
+              resolved: true
+            });
+            summary.resolvedCommentReportIds.push(
+              report.reportView.comment_report.id
+            );
+          }
+        }
+
+        if (ban) {
+          if (community) {
+            await botActions.banFromCommunity({
+              community_id: community.id,
+              person_id: person.id,
+              ban: true,
+              reason
+            });
+          } else {
+            await botActions.banFromSite({
+              person_id: person.id,
+              ban: true,
+              reason
+            });
+          }
+
+          summary.banned = true;
+        }
+
+        this.#logger.info(
+          `Removed ${summary.removedPostIds.length} posts and ${summary.removedCommentIds.length} comments by user ID ${person.id} and resolved ${summary.resolvedPostReportIds.length + summary.resolvedCommentReportIds.length} reports`
+        );
+
+        return summary;
+      },
+      featurePost: (form) =>
+        performAction({
+          logMessage: `${form.featured ? 'F' : 'Unf'}eaturing report ID ${form.post_id}`,
+          action: () => httpClient().featurePost(form),
+          dryRun: this.#dryRun.simulate('featurePost', form)
+        }),
+      lockPost: (form) =>
+        performAction({
+          logMessage: `${form.locked ? 'L' : 'Unl'}ocking report ID ${form.post_id}`,
+          action: () => httpClient().lockPost(form),
+          dryRun: this.#dryRun.simulate('lockPost', form)
+        }),
+      followCommunity: (form) =>
+        performAction({
+          logMessage: `Following community ID ${form.community_id}`,
+          action: () => httpClient().followCommunity(form),
+          dryRun: this.#dryRun.simulate('followCommunity', form)
+        }),
+      uploadImage: (image) =>
+        performAction({
+          logMessage: 'Uploading image',
+          action: () => httpClient().uploadImage({ image }),
+          rateLimitType: 'image',
+          dryRun: this.#dryRun.simulate('uploadImage', image)
+        }),
+      getPost: (options) => httpClient().getPost(options),
+      getComment: (options) => httpClient().getComment(options),
+      getParentOfComment: async ({ path, post_id }) => {
+        const pathList = path.split('.').filter((i) => i !== '0');
+
+        if (pathList.length === 1) {
+          return {
+            type: 'post',
+            post: await botActions.getPost({
+              id: post_id
+            })
+          };
+        } else {
+          const parentId = Number(pathList[pathList.length - 2]);
+
+          return {
+            type: 'comment',
+            comment: await botActions.getComment({ id: parentId })
+          };
+        }
+      },
+      getCommentAncestors: async (comment) => {
+        const [{ post_view }, ancestors] = await Promise.all([
+          botActions.getPost({ id: comment.post_id }),
+          // Requests go through the action queue so deep reply chains don't exceed the rate limit
+          Promise.all(
+            getAncestorIds(comment).map(
+              async (id) =>
+                (
+                  await performAction({
+                    logMessage: `Getting ancestor comment ID ${id}`,
+                    action: () => httpClient().getComment({ id })
+                  })
+                ).comment_view
+            )
+          )
+        ]);
+
+        return { postView: post_view, ancestors };
+      },
+      getCommentTree: async (target, { maxDepth = Infinity } = {}) => {
+        const getDepth = (comment: { path: string }) =>
+          getAncestorIds(comment).length + 1;
+        const [form, description, rootDepth] =
+          'postId' in target
+            ? [{ post_id: target.postId }, `post ID ${target.postId}`, 0]
+            : [
+                { parent_id: target.commentId },
+                `comment ID ${target.commentId}`,
+                getDepth(
+                  (await botActions.getComment({ id: target.commentId }))
+                    .comment_view.comment
+                )
+              ];
+        const nodes = new Map<number, BotCommentNode>();
+
+        // max_depth isn't sent because Lemmy doesn't page comments when it is set
+        for await (const commentView of paginate(async (page) => {
+          const { comments } = await performAction({
+            logMessage: `Getting comment tree of ${description}: page ${page}`,
+            action: () =>
+              httpClient().getComments({
+                ...form,
+                type_: 'All',
+                sort: 'Old',
+                page,
+                limit: PAGE_LIMIT
+              })
+          });
+
+          return { items: comments, isLastPage: comments.length < PAGE_LIMIT };
+        })) {
+          if (getDepth(commentView.comment) - rootDepth <= maxDepth) {
+            nodes.set(commentView.comment.id, { commentView, replies: [] });
+          }
+        }
+
+        const roots: BotCommentNode[] = [];
+
+        for (const node of nodes.values()) {
+          const [parentId] = getAncestorIds(node.commentView.comment).slice(-1);
+          const parent =
+            parentId === undefined ? undefined : nodes.get(parentId);
+
+          (parent?.replies ?? roots).push(node);
+        }
+
+        return roots;
+      },
+      isCommunityMod: async ({ community, person }) => {
+        const { moderates } = await httpClient().getPersonDetails({
+          person_id: person.id
+        });
+
+        return moderates.some((comm) => comm.community.id === community.id);
+      },
+      resolveObject: (form) =>
+        performAction({
+          logMessage: `Resolving object: ${form.q}`,
+          action: () => httpClient().resolveObject(form),
+          rateLimitType: 'search'
+        }),
+      getPersonDetails: (form) =>
+        performAction({
+          logMessage: `Getting details for ${form.username ? form.username : `user with ID ${form.person_id}`}`,
+          action: () => httpClient().getPersonDetails(form)
+        }),
+      listMedia: (form = {}) =>
+        performAction({
+          logMessage: 'Listing media posted by bot',
+          action: () => httpClient().listMedia(form)
+        }),
+      listAllMedia: (form) =>
+        performAction({
+          logMessage: 'Listing all media posted on instance',
+          action: () => httpClient().listAllMedia(form)
+        }),
+      hidePost: (form) =>
+        performAction({
+          logMessage: `Hiding posts with IDs = ${form.post_ids.join(', ')}`,
+          action: () => httpClient().hidePost(form),
+          dryRun: this.#dryRun.simulate('hidePost', form)
+        }),
+      watchThread: async (postId, { minutesUntilExpiry } = {}) => {
+        this.#logger.info(`Watching post ID ${postId} for new comments`);
+        await connection.threadWatcher.watch(postId, minutesUntilExpiry);
+      },
+      unwatchThread: async (postId) => {
+        this.#logger.info(`No longer watching post ID ${postId}`);
+        await connection.threadWatcher.unwatch(postId);
+      },
+      listPosts: ({ limit = PAGE_LIMIT, maxItems, ...form } = {}) =>
+        takeItems(
+          [
+            paginate(async (page) => {
+              const { posts } = await performAction({
+                logMessage: `Listing posts: page ${page}`,
+                action: () => httpClient().getPosts({ ...form, page, limit })
+              });
+
+              return {
+                items: this.#filterFromResponse(connection, posts),
+                isLastPage: posts.length < limit
+              };
+            })
+          ],
+          maxItems
+        ),
+      listComments: ({ limit = PAGE_LIMIT, maxItems, ...form } = {}) =>
+        takeItems(
+          [
+            paginate(async (page) => {
+              const { comments } = await performAction({
+                logMessage: `Listing comments: page ${page}`,
+                action: () => httpClient().getComments({ ...form, page, limit })
+              });
+
+              return {
+                items: this.#filterFromResponse(connection, comments),
+                isLastPage: comments.length < limit
+              };
+            })
+          ],
+          maxItems
+        ),
+      search: ({ limit = PAGE_LIMIT, maxItems, ...form }) =>
+        takeItems(
+          [
+            paginate(async (page) => {
+              const { posts, comments, communities, users } =
+                await performAction({
+                  logMessage: `Searching for ${form.q}: page ${page}`,
+                  action: () => httpClient().search({ ...form, page, limit }),
+                  rateLimitType: 'search'
+                });
+
+              return {
+                items: [
+                  ...this.#filterFromResponse(connection, posts).map(
+                    (postView): BotSearchResult => ({ type: 'post', postView })
+                  ),
+                  ...this.#filterFromResponse(connection, comments).map(
+                    (commentView): BotSearchResult => ({
+                      type: 'comment',
+                      commentView
+                    })
+                  ),
+                  ...this.#filterFromResponse(connection, communities).map(
+                    (communityView): BotSearchResult => ({
+                      type: 'community',
+                      communityView
+                    })
+                  ),
+                  ...users.map(
+                    (personView): BotSearchResult => ({
+                      type: 'person',
+                      personView
+                    })
+                  )
+                ],
+                isLastPage: [posts, comments, communities, users].every(
+                  (results) => results.length < limit
+                )
+              };
+            })
+          ],
+          maxItems
+        ),
+      listCommunities: ({ limit = PAGE_LIMIT, maxItems, ...form } = {}) =>
+        takeItems(
+          [
+            paginate(async (page) => {
+              const { communities } = await performAction({
+                logMessage: `Listing communities: page ${page}`,
+                action: () =>
+                  httpClient().listCommunities({ ...form, page, limit })
+              });
+
+              return {
+                items: this.#filterFromResponse(connection, communities),
+                isLastPage: communities.length < limit
+              };
+            })
+          ],
+          maxItems
+        ),
+      listReports: ({
+        type,
+        limit = PAGE_LIMIT,
+        maxItems,
+        unresolved_only,
+        community_id
+      } = {}) => {
+        const listPostReports = paginate(async (page) => {
+          const { post_reports } = await performAction({
+            logMessage: `Listing post reports: page ${page}`,
+            action: () =>
+              httpClient().listPostReports({
+                unresolved_only,
+                community_id,
+                page,
+                limit
+              })
+          });
+
+          return {
+            items: this.#filterFromResponse(connection, post_reports).map(
+              (reportView): BotReport => ({ type: 'post', reportView })
+            ),
+            isLastPage: post_reports.length < limit
+          };
+        });
+        const listCommentReports = paginate(async (page) => {
+          const { comment_reports } = await performAction({
+            logMessage: `Listing comment reports: page ${page}`,
+            action: () =>
+              httpClient().listCommentReports({
+                unresolved_only,
+                community_id,
+                page,
+                limit
+              })
+          });
+
+          return {
+            items: this.#filterFromResponse(connection, comment_reports).map(
+              (reportView): BotReport => ({ type: 'comment', reportView })
+            ),
+            isLastPage: comment_reports.length < limit
+          };
+        });
+        const listPrivateMessageReports = paginate(async (page) => {
+          const { private_message_reports } = await performAction({
+            logMessage: `Listing private message reports: page ${page}`,
+            action: () =>
+              httpClient().listPrivateMessageReports({
+                unresolved_only,
+                page,
+                limit
+              })
+          });
+
+          return {
+            items: private_message_reports.map(
+              (reportView): BotReport => ({
+                type: 'privateMessage',
+                reportView
+              })
+            ),
+            isLastPage: private_message_reports.length < limit
+          };
+        });
+
+        return takeItems(
+          [
+            ...(type === undefined || type === 'post' ? [listPostReports] : []),
+            ...(type === undefined || type === 'comment'
+              ? [listCommentReports]
+              : []),
+            ...((type === undefined || type === 'privateMessage') &&
+            community_id === undefined
+              ? [listPrivateMessageReports]
+              : [])
+          ],
+          maxItems
+        );
+      }
+    };
+
+    return {
+      ...this.#wrapBotActions(botActions, connection, account),
+      as: (name) => this.#getAccountBotActions(name)
+    };
+  }
+
+  #getAccountBotActions(name: string) {
+    const botActions = this.#accountBotActions.get(name);
+
+    if (!botActions) {
+      throw `Bot has no account named ${name}. Accounts: ${[...this.#accountBotActions.keys()].join(', ') || 'none'}`;
+    }
+
+    return botActions;
+  }
+
+  /**
+   * Performs an action through the action queue. Actions with a `dryRun` simulation change something
+   * on the instance, so the simulation is run instead of the action when the bot is in dry run mode.
+   */
   async #performLoggedInBotAction<T>({
     logMessage,
-    action
-  }: {
-    logMessage: string;
-    action: () => Promise<T>;
+    action,
+    rateLimitType = 'message',
+    dryRun,
+    connection,
+    account = connection.accounts[0]
+  }: BotActionOptions<T> & {
+    connection: Connection;
+    account?: Account;
   }): Promise<T> {
-    this.#log(logMessage);
+    this.#logger.info(logMessage);
 
-    if (this.#isDryRun) {
-      return Promise.reject();
+    if (this.#isDryRun && dryRun) {
+      return this.#dryRun.run(dryRun, logMessage, account?.name);
     }
 
+    if (account && !account.isLoggedIn) {
+      await this.#login(connection, account);
+    }
+
+    const jwt = account?.jwt;
+
     try {
-      return await action();
-    } catch (err: any) {
-      if (err.error === 'not_logged_in') {
-        this.#isLoggedIn = false;
+      return await connection.actionQueue.enqueue(rateLimitType, action);
+    } catch (err) {
+      if (!account || !isAuthError(err)) {
+        throw err;
       }
 
-      throw err;
+      await this.#expireSession(connection, account, jwt);
+
+      if (!account.isLoggedIn) {
+        await this.#login(connection, account);
+      }
+
+      return connection.actionQueue.enqueue(rateLimitType, action);
     }
   }
 
-  #log = (output: string) => {
-    if (this.#enableLogs) {
-      console.log(output);
-    }
-  };
+  /**
+   * Wraps each bot action so that action listeners are notified of it, `actionPerformed` is emitted once it succeeds, and
+   * anything logged while performing it includes the action's name and the account performing it
+   */
+  #wrapBotActions(
+    botActions: Omit<BotActions, 'as'>,
+    connection: Connection,
+    account?: Account
+  ) {
+    return Object.fromEntries(
+      Object.entries(botActions).map(([action, performAction]) => [
+        action,
+        (...args: unknown[]) => {
+          for (const listener of this.#actionListeners) {
+            listener(action as keyof BotActions, args, account?.name);
+          }
+
+          if (LISTING_ACTIONS.includes(action)) {
+            // Listings return async iterators, which would be hidden behind a promise if awaited here.
+            // The requests for each page are logged as they are made.
+            return (performAction as (...args: unknown[]) => unknown)(...args);
+          }
+
+          return this.#logger.run(
+            { action, account: account?.name },
+            async () => {
+              const labels = { instance: connection.instance, action };
+              let result: unknown;
+
+              try {
+                result = await (
+                  performAction as (...args: unknown[]) => Promise<unknown>
+                )(...args);
+              } catch (err) {
+                this.#metrics.actionFailures.inc(labels);
+
+                throw err;
+              }
+
+              this.#metrics.actions.inc(labels);
+              this.emit('actionPerformed', {
+                instance: connection.instance,
+                action: action as keyof BotActions,
+                args,
+                account: account?.name
+              });
+
+              return result;
+            }
+          );
+        }
+      ])
+    ) as Omit<BotActions, 'as'>;
+  }
 }
 
 export default LemmyBot;
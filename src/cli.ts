@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { LemmyHttp } from 'lemmy-js-client';
+import { userInfo } from 'os';
+import path from 'path';
+import LemmyBot from './bot';
+import { findConfigFile, loadConfig } from './config';
+import { formatError, parseCredentials } from './helpers';
+import { generateTotp } from './totp';
+
+const TEMPLATES_DIR = path.join(__dirname, '..', 'templates');
+
+const USAGE = `Usage: lemmy-bot <command> [path]
+
+Commands:
+  run [config]       Run the bot described by a config file
+  validate [config]  Check a config file and log in with its credentials
+  init [dir]         Create a bot project in a directory
+
+If no config file is given, lemmy-bot looks for lemmy-bot.yaml, lemmy-bot.yml,
+or lemmy-bot.json in the current directory.`;
+
+const CONFIG_TEMPLATE = `instance: instance.xyz
+credentials:
+  username: MyBot
+  password:
+    env: LEMMY_BOT_PASSWORD
+federation: local
+dbFile: data/db.sqlite3
+handlers:
+  post: ./handlers/post.js
+`;
+
+const HANDLER_TEMPLATE = `module.exports = async ({ postView: { post } }) => {
+  console.log(\`New post: \${post.name}\`);
+};
+`;
+
+const run = async (configPath: string) => {
+  const bot = new LemmyBot(await loadConfig(configPath));
+
+  const shutdown = async () => {
+    await bot.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  await bot.start();
+};
+
+const validate = async (configPath: string) => {
+  const options = await loadConfig(configPath);
+  new LemmyBot({ ...options, enableLogs: false });
+  console.log(`${configPath} is valid`);
+
+  const [mainInstance] = Array.isArray(options.instance)
+    ? options.instance
+    : [options.instance];
+  let failed = false;
+
+  for (const [name, credentials] of parseCredentials(options.credentials)) {
+    const instance = credentials.instance ?? mainInstance;
+    const client = new LemmyHttp(
+      `http${options.secure === false ? '' : 's'}://${instance}`
+    );
+
+    try {
+      await client.login({
+        username_or_email: credentials.username,
+        password: credentials.password,
+        totp_2fa_token:
+          credentials.totpSecret && generateTotp(credentials.totpSecret)
+      });
+      console.log(`Logged in as ${name} on ${instance}`);
+    } catch (err) {
+      failed = true;
+      console.error(
+        `Could not log in as ${name} on ${instance}: ${formatError(err)}`
+      );
+    }
+  }
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+};
+
+const writeIfMissing = async (filePath: string, contents: string) => {
+  if (existsSync(filePath)) {
+    console.log(`Skipped ${filePath}, which already exists`);
+
+    return;
+  }
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, contents);
+  console.log(`Created ${filePath}`);
+};
+
+const init = async (dir: string) => {
+  const projectDir = path.resolve(dir);
+  const name = path.basename(projectDir);
+  const { version } = JSON.parse(
+    readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')
+  );
+
+  const dockerfile = (
+    await readFile(path.join(TEMPLATES_DIR, 'Dockerfile'), 'utf8')
+  ).replace(/^WORKDIR .*$/m, 'WORKDIR /app');
+  const serviceFile = (
+    await readFile(
+      path.join(TEMPLATES_DIR, 'systemd-unit-file-template.service'),
+      'utf8'
+    )
+  )
+    .replace(/^Description=.*$/m, `Description=${name} Lemmy bot`)
+    .replace(/^WorkingDirectory=.*$/m, `WorkingDirectory=${projectDir}`)
+    .replace(/^User=.*$/m, `User=${userInfo().username}`)
+    .replace(/^ExecStart=.*$/m, 'ExecStart=/usr/bin/env npm run start');
+
+  await writeIfMissing(
+    path.join(projectDir, 'package.json'),
+    `${JSON.stringify(
+      {
+        name,
+        private: true,
+        scripts: { start: 'lemmy-bot run' },
+        dependencies: { 'lemmy-bot': `^${version}` }
+      },
+      null,
+      2
+    )}\n`
+  );
+  await writeIfMissing(
+    path.join(projectDir, 'lemmy-bot.yaml'),
+    CONFIG_TEMPLATE
+  );
+  await writeIfMissing(
+    path.join(projectDir, 'handlers', 'post.js'),
+    HANDLER_TEMPLATE
+  );
+  await writeIfMissing(path.join(projectDir, 'Dockerfile'), dockerfile);
+  await writeIfMissing(path.join(projectDir, `${name}.service`), serviceFile);
+};
+
+const main = async ([command, target]: string[]) => {
+  switch (command) {
+    case 'run':
+      await run(target ?? findConfigFile());
+      break;
+    case 'validate':
+      await validate(target ?? findConfigFile());
+      break;
+    case 'init':
+      await init(target ?? '.');
+      break;
+    case undefined:
+    case 'help':
+    case '--help':
+    case '-h':
+      console.log(USAGE);
+      break;
+    default:
+      console.error(`Unknown command ${command}\n\n${USAGE}`);
+      process.exitCode = 1;
+  }
+};
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(formatError(err));
+  process.exit(1);
+});
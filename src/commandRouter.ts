@@ -0,0 +1,315 @@
+import { LemmyHttp, Person } from 'lemmy-js-client';
+import {
+  BotActions,
+  BotCommand,
+  BotCommandArgument,
+  BotCommands,
+  BotCommandSource,
+  BotState
+} from './types';
+
+const HELP_COMMAND = 'help';
+const BOOLEAN_VALUES = new Map([
+  ['true', true],
+  ['yes', true],
+  ['on', true],
+  ['1', true],
+  ['false', false],
+  ['no', false],
+  ['off', false],
+  ['0', false]
+]);
+
+/**
+ * Identity function that lets TypeScript infer the types of a command's arguments from its argument schema.
+ */
+export const defineCommand = <
+  const TArgs extends readonly BotCommandArgument[]
+>(
+  command: BotCommand<TArgs>
+) => command;
+
+const escapeRegExp = (str: string) =>
+  str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getContent = (source: BotCommandSource) => {
+  switch (source.type) {
+    case 'mention':
+      return source.mentionView.comment.content;
+    case 'reply':
+      return source.replyView.comment.content;
+    case 'privateMessage':
+      return source.messageView.private_message.content;
+  }
+};
+
+const getSender = (source: BotCommandSource): Person => {
+  switch (source.type) {
+    case 'mention':
+      return source.mentionView.creator;
+    case 'reply':
+      return source.replyView.creator;
+    case 'privateMessage':
+      return source.messageView.creator;
+  }
+};
+
+const replyToSource = (
+  source: BotCommandSource,
+  botActions: BotActions,
+  content: string
+) => {
+  switch (source.type) {
+    case 'mention':
+    case 'reply': {
+      const { comment } =
+        source.type === 'mention' ? source.mentionView : source.replyView;
+
+      return botActions.createComment({
+        post_id: comment.post_id,
+        parent_id: comment.id,
+        content
+      });
+    }
+    case 'privateMessage':
+      return botActions.sendPrivateMessage({
+        recipient_id: source.messageView.creator.id,
+        content
+      });
+  }
+};
+
+const tokenize = (text: string) =>
+  [...text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((match) => ({
+    value: match[1] ?? match[2] ?? match[3],
+    index: match.index!
+  }));
+
+const parseArgument = (argument: BotCommandArgument, value: string) => {
+  switch (argument.type) {
+    case 'number': {
+      const parsed = Number(value);
+
+      if (Number.isNaN(parsed)) {
+        throw `Argument ${argument.name} must be a number`;
+      }
+
+      return parsed;
+    }
+    case 'boolean': {
+      const parsed = BOOLEAN_VALUES.get(value.toLowerCase());
+
+      if (parsed === undefined) {
+        throw `Argument ${argument.name} must be true or false`;
+      }
+
+      return parsed;
+    }
+    default:
+      return value;
+  }
+};
+
+const validateCommand = (name: string, { args = [] }: BotCommand) => {
+  args.forEach((argument, i) => {
+    if (argument.rest && i !== args.length - 1) {
+      throw `Command ${name} has a rest argument that is not its last argument`;
+    }
+
+    if (!argument.optional && args.slice(0, i).some((a) => a.optional)) {
+      throw `Command ${name} has required argument ${argument.name} after an optional argument`;
+    }
+  });
+};
+
+export default class CommandRouter {
+  #commands = new Map<string, { name: string; command: BotCommand<any> }>();
+  #prefix: string;
+
+  constructor(commands: BotCommands, prefix = '!') {
+    this.#prefix = prefix;
+
+    for (const [name, command] of Object.entries(commands)) {
+      validateCommand(name, command);
+
+      for (const alias of [name, ...(command.aliases ?? [])]) {
+        const key = alias.toLowerCase();
+
+        if (this.#commands.has(key)) {
+          throw `Command name or alias ${alias} is used more than once`;
+        }
+
+        this.#commands.set(key, { name, command });
+      }
+    }
+  }
+
+  /**
+   * Runs the command contained in the source's content, if there is one.
+   *
+   * @returns whether a command was found and run
+   */
+  async dispatch({
+    source,
+    instance,
+    botActions,
+    state,
+    __httpClient__
+  }: {
+    source: BotCommandSource;
+    instance: string;
+    botActions: BotActions;
+    state: BotState;
+    __httpClient__: LemmyHttp;
+  }) {
+    const invocation = this.#findInvocation(getContent(source));
+
+    if (!invocation) {
+      return false;
+    }
+
+    const reply = (content: string) =>
+      replyToSource(source, botActions, content);
+    const match = this.#commands.get(invocation.name.toLowerCase());
+
+    if (!match) {
+      if (invocation.name.toLowerCase() === HELP_COMMAND) {
+        await reply(this.#getHelp(invocation.argsText.trim()));
+
+        return true;
+      }
+
+      return false;
+    }
+
+    const { name, command } = match;
+    let args: Record<string, string | number | boolean | undefined>;
+
+    try {
+      args = this.#parseArguments(command, invocation.argsText);
+    } catch (error) {
+      await reply(`${error}\n\nUsage: \`${this.#getUsage(name, command)}\``);
+
+      return true;
+    }
+
+    await command.handle({
+      args,
+      source,
+      sender: getSender(source),
+      reply,
+      instance,
+      botActions,
+      state,
+      __httpClient__
+    });
+
+    return true;
+  }
+
+  #findInvocation(content: string) {
+    const regex = new RegExp(
+      `(?:^|\\s)${escapeRegExp(this.#prefix)}([\\w-]+)(?=\\s|$)(.*)$`
+    );
+
+    for (const line of content.split('\n')) {
+      const match = line.match(regex);
+
+      if (match) {
+        return { name: match[1], argsText: match[2] };
+      }
+    }
+
+    return undefined;
+  }
+
+  #parseArguments({ args = [] }: BotCommand, argsText: string) {
+    const tokens = tokenize(argsText);
+    const parsed: Record<string, string | number | boolean | undefined> = {};
+
+    args.forEach((argument, i) => {
+      const token = tokens[i];
+
+      if (!token) {
+        if (!argument.optional) {
+          throw `Missing argument ${argument.name}`;
+        }
+
+        parsed[argument.name] = undefined;
+      } else if (argument.rest) {
+        parsed[argument.name] = parseArgument(
+          argument,
+          argsText.slice(token.index).trim()
+        );
+      } else {
+        parsed[argument.name] = parseArgument(argument, token.value);
+      }
+    });
+
+    if (!args[args.length - 1]?.rest && tokens.length > args.length) {
+      throw 'Too many arguments';
+    }
+
+    return parsed;
+  }
+
+  #getUsage(name: string, { args = [] }: BotCommand) {
+    return [
+      `${this.#prefix}${name}`,
+      ...args.map(({ name, optional, rest }) => {
+        const label = rest ? `${name}...` : name;
+
+        return optional ? `[${label}]` : `<${label}>`;
+      })
+    ].join(' ');
+  }
+
+  #getHelp(commandName: string) {
+    const match = commandName
+      ? this.#commands.get(commandName.replace(this.#prefix, '').toLowerCase())
+      : undefined;
+
+    if (match) {
+      const { name, command } = match;
+      const lines = [`\`${this.#getUsage(name, command)}\``];
+
+      if (command.description) {
+        lines.push('', command.description);
+      }
+
+      if (command.aliases && command.aliases.length > 0) {
+        lines.push(
+          '',
+          `Aliases: ${command.aliases.map((a) => `\`${this.#prefix}${a}\``).join(', ')}`
+        );
+      }
+
+      const commandArgs: BotCommandArgument[] = command.args ?? [];
+      const describedArgs = commandArgs.filter((a) => a.description);
+
+      if (describedArgs.length > 0) {
+        lines.push(
+          '',
+          ...describedArgs.map((a) => `- \`${a.name}\`: ${a.description}`)
+        );
+      }
+
+      return lines.join('\n');
+    }
+
+    const commands = [
+      ...new Map([...this.#commands.values()].map((c) => [c.name, c.command]))
+    ];
+
+    return [
+      '**Commands**',
+      '',
+      ...commands.map(
+        ([name, command]) =>
+          `- \`${this.#getUsage(name, command)}\`${command.description ? `: ${command.description}` : ''}`
+      ),
+      '',
+      `Send \`${this.#prefix}${HELP_COMMAND} <command>\` for details about a command.`
+    ].join('\n');
+  }
+}
@@ -0,0 +1,273 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { formatError } from './helpers';
+import { BotOptions, BotTask } from './types';
+
+export const DEFAULT_CONFIG_FILES = [
+  'lemmy-bot.yaml',
+  'lemmy-bot.yml',
+  'lemmy-bot.json'
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasOnlyKey = (value: Record<string, unknown>, key: string) =>
+  typeof value[key] === 'string' && Object.keys(value).length === 1;
+
+/**
+ * Replaces `{ env: 'NAME' }` with the value of an environment variable and
+ * `{ file: 'path' }` with the contents of a file, anywhere in the config
+ */
+const resolveSecrets = async (
+  value: unknown,
+  configDir: string
+): Promise<unknown> => {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => resolveSecrets(item, configDir)));
+  } else if (!isObject(value)) {
+    return value;
+  } else if (hasOnlyKey(value, 'env')) {
+    const name = value.env as string;
+    const envValue = process.env[name];
+
+    if (envValue === undefined) {
+      throw `Config refers to environment variable ${name}, which is not set`;
+    }
+
+    return envValue;
+  } else if (hasOnlyKey(value, 'file')) {
+    const filePath = path.resolve(configDir, value.file as string);
+
+    if (!existsSync(filePath)) {
+      throw `Config refers to file ${filePath}, which does not exist`;
+    }
+
+    return (await readFile(filePath, 'utf8')).trim();
+  }
+
+  return Object.fromEntries(
+    await Promise.all(
+      Object.entries(value).map(async ([key, entry]) => [
+        key,
+        await resolveSecrets(entry, configDir)
+      ])
+    )
+  );
+};
+
+/**
+ * Loads what a module path in the config refers to. Paths are relative to the config file.
+ * The module's default export is used unless `exportName` is given.
+ */
+const loadModuleExport = (
+  modulePath: string,
+  exportName: string | undefined,
+  configDir: string,
+  description: string
+) => {
+  const requireFromConfig = createRequire(path.join(configDir, 'config'));
+  let loaded: Record<string, unknown>;
+
+  try {
+    loaded = requireFromConfig(
+      modulePath.startsWith('.')
+        ? path.resolve(configDir, modulePath)
+        : modulePath
+    );
+  } catch (err) {
+    throw `Could not load module ${modulePath} for ${description}: ${formatError(err)}`;
+  }
+
+  const exported = exportName ? loaded[exportName] : (loaded.default ?? loaded);
+
+  if (exported === undefined) {
+    throw `Module ${modulePath} for ${description} has no ${exportName ? `export named ${exportName}` : 'default export'}`;
+  }
+
+  return exported;
+};
+
+/**
+ * A module path, or an object with a `module` path, an optional `export` name, and other options
+ */
+const parseModuleReference = (reference: unknown, description: string) => {
+  if (typeof reference === 'string') {
+    return { modulePath: reference, options: {} };
+  } else if (isObject(reference) && typeof reference.module === 'string') {
+    const { module: modulePath, export: exportName, ...options } = reference;
+
+    return {
+      modulePath,
+      exportName: typeof exportName === 'string' ? exportName : undefined,
+      options
+    };
+  }
+
+  throw `${description} must be a module path or an object with a module property`;
+};
+
+const toDate = (value: unknown) =>
+  typeof value === 'string' ? new Date(value) : value;
+
+const loadHandlers = (handlers: unknown, configDir: string) => {
+  if (!isObject(handlers)) {
+    throw 'Config handlers must be an object keyed by handler name';
+  }
+
+  return Object.fromEntries(
+    Object.entries(handlers).map(([name, reference]) => {
+      const description = `handler ${name}`;
+      const { modulePath, exportName, options } = parseModuleReference(
+        reference,
+        description
+      );
+      const exported = loadModuleExport(
+        modulePath,
+        exportName,
+        configDir,
+        description
+      );
+
+      if (typeof exported !== 'function' && !isObject(exported)) {
+        throw `Module ${modulePath} for ${description} must export a handle function or handler options`;
+      }
+
+      return [
+        name,
+        {
+          ...(typeof exported === 'function' ? { handle: exported } : exported),
+          ...options,
+          ...('backfillSince' in options
+            ? { backfillSince: toDate(options.backfillSince) }
+            : {})
+        }
+      ];
+    })
+  );
+};
+
+const loadSchedule = (schedule: unknown, configDir: string): BotTask[] =>
+  (Array.isArray(schedule) ? schedule : [schedule]).map((task, i) => {
+    const description = `scheduled task ${i + 1}`;
+    const { modulePath, exportName, options } = parseModuleReference(
+      task,
+      description
+    );
+    const exported = loadModuleExport(
+      modulePath,
+      exportName,
+      configDir,
+      description
+    );
+
+    if (typeof exported !== 'function' && !isObject(exported)) {
+      throw `Module ${modulePath} for ${description} must export a doTask function or a task`;
+    }
+
+    return {
+      ...(typeof exported === 'function' ? { doTask: exported } : exported),
+      ...options
+    } as BotTask;
+  });
+
+const loadCommands = (commands: unknown, configDir: string) => {
+  const description = 'commands';
+  const { modulePath, exportName } = parseModuleReference(
+    commands,
+    description
+  );
+  const exported = loadModuleExport(
+    modulePath,
+    exportName,
+    configDir,
+    description
+  );
+
+  if (!isObject(exported)) {
+    throw `Module ${modulePath} for ${description} must export an object keyed by command name`;
+  }
+
+  return exported;
+};
+
+/**
+ * Finds the config file to use when none is given
+ */
+export const findConfigFile = (dir = process.cwd()) => {
+  const found = DEFAULT_CONFIG_FILES.map((file) => path.join(dir, file)).find(
+    (file) => existsSync(file)
+  );
+
+  if (!found) {
+    throw `No config file found. Looked for ${DEFAULT_CONFIG_FILES.join(', ')} in ${dir}`;
+  }
+
+  return found;
+};
+
+/**
+ * Loads bot options from a JSON or YAML config file.
+ * Handlers, scheduled tasks, and commands are given as paths to the modules that implement them,
+ * and secrets can be read from environment variables or files.
+ */
+export const loadConfig = async (configPath: string): Promise<BotOptions> => {
+  const resolvedPath = path.resolve(configPath);
+  const configDir = path.dirname(resolvedPath);
+
+  if (!existsSync(resolvedPath)) {
+    throw `Config file ${resolvedPath} does not exist`;
+  }
+
+  const contents = await readFile(resolvedPath, 'utf8');
+  let parsed: unknown;
+
+  try {
+    parsed =
+      path.extname(resolvedPath) === '.json'
+        ? JSON.parse(contents)
+        : parseYaml(contents);
+  } catch (err) {
+    throw `Could not parse config file ${resolvedPath}: ${formatError(err)}`;
+  }
+
+  if (!isObject(parsed)) {
+    throw `Config file ${resolvedPath} must contain an object`;
+  }
+
+  const { handlers, schedule, commands, connection, dbFile, ...options } =
+    (await resolveSecrets(parsed, configDir)) as Record<string, unknown>;
+
+  if (!options.instance) {
+    throw `Config file ${resolvedPath} must set instance`;
+  }
+
+  return {
+    ...options,
+    ...(handlers === undefined
+      ? {}
+      : { handlers: loadHandlers(handlers, configDir) }),
+    ...(schedule === undefined
+      ? {}
+      : { schedule: loadSchedule(schedule, configDir) }),
+    ...(commands === undefined
+      ? {}
+      : { commands: loadCommands(commands, configDir) }),
+    ...(isObject(connection)
+      ? {
+          connection: {
+            ...connection,
+            ...('backfillSince' in connection
+              ? { backfillSince: toDate(connection.backfillSince) }
+              : {})
+          }
+        }
+      : {}),
+    ...(typeof dbFile === 'string'
+      ? { dbFile: path.resolve(configDir, dbFile) }
+      : {})
+  } as BotOptions;
+};
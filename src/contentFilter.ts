@@ -0,0 +1,142 @@
+import { CommentView, Community, Person, PostView } from 'lemmy-js-client';
+import { extractInstanceFromActorId } from './helpers';
+import {
+  BotContentFilter,
+  BotNameFilter,
+  BotRange,
+  BotTextMatcher
+} from './types';
+
+type FilterFields = {
+  creator: Person;
+  community: Community;
+  languageId: number;
+  nsfw: boolean;
+  published: string;
+  score: number;
+  title: string;
+  body?: string;
+  url?: string;
+};
+
+const postViewToFields = ({
+  post,
+  creator,
+  community,
+  counts
+}: PostView): FilterFields => ({
+  creator,
+  community,
+  languageId: post.language_id,
+  nsfw: post.nsfw || community.nsfw,
+  published: post.published,
+  score: counts.score,
+  title: post.name,
+  body: post.body,
+  url: post.url
+});
+
+const commentViewToFields = ({
+  comment,
+  post,
+  creator,
+  community,
+  counts
+}: CommentView): FilterFields => ({
+  creator,
+  community,
+  languageId: comment.language_id,
+  nsfw: post.nsfw || community.nsfw,
+  published: comment.published,
+  score: counts.score,
+  title: post.name,
+  body: comment.content,
+  url: post.url
+});
+
+const matchesName = (
+  { name, actor_id }: { name: string; actor_id: string },
+  names: string[]
+) => {
+  const fullName = `${name}@${extractInstanceFromActorId(actor_id)}`;
+
+  return names.some(
+    (n) => n.toLowerCase() === (n.includes('@') ? fullName : name).toLowerCase()
+  );
+};
+
+const passesNameFilter = (
+  actor: { name: string; actor_id: string },
+  { allow, block }: BotNameFilter
+) =>
+  (!allow || matchesName(actor, allow)) &&
+  !(block && matchesName(actor, block));
+
+const inRange = (value: number, { min, max }: BotRange) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const matchesText = (text: string | undefined, matcher: BotTextMatcher) =>
+  text !== undefined &&
+  (Array.isArray(matcher) ? matcher : [matcher]).some((m) =>
+    typeof m === 'string'
+      ? text.toLowerCase().includes(m.toLowerCase())
+      : new RegExp(m.source, m.flags.replace('g', '')).test(text)
+  );
+
+/**
+ * Whether an item passes a filter. Items that only fail because they are too new or their score is too low are
+ * `'pending'`, since they may pass later.
+ */
+export type FilterResult = 'pass' | 'pending' | 'fail';
+
+const checkFilter = (
+  {
+    creator,
+    community,
+    languageId,
+    nsfw,
+    published,
+    score,
+    title,
+    body,
+    url
+  }: FilterFields,
+  filter: BotContentFilter,
+  botPersonIds: number[]
+): FilterResult => {
+  const age = (Date.now() - new Date(published).getTime()) / (1000 * 60);
+
+  if (
+    ((filter.excludeSelf ?? true) && botPersonIds.includes(creator.id)) ||
+    (filter.author && !passesNameFilter(creator, filter.author)) ||
+    (filter.botAccount !== undefined &&
+      creator.bot_account !== filter.botAccount) ||
+    (filter.community && !passesNameFilter(community, filter.community)) ||
+    (filter.languageIds && !filter.languageIds.includes(languageId)) ||
+    (filter.nsfw !== undefined && nsfw !== filter.nsfw) ||
+    (filter.age && !inRange(age, { max: filter.age.max })) ||
+    (filter.score && !inRange(score, { max: filter.score.max })) ||
+    (filter.title && !matchesText(title, filter.title)) ||
+    (filter.body && !matchesText(body, filter.body)) ||
+    (filter.url && !matchesText(url, filter.url))
+  ) {
+    return 'fail';
+  }
+
+  return (filter.age && !inRange(age, { min: filter.age.min })) ||
+    (filter.score && !inRange(score, { min: filter.score.min }))
+    ? 'pending'
+    : 'pass';
+};
+
+export const checkPostFilter = (
+  postView: PostView,
+  filter: BotContentFilter,
+  botPersonIds: number[] = []
+) => checkFilter(postViewToFields(postView), filter, botPersonIds);
+
+export const checkCommentFilter = (
+  commentView: CommentView,
+  filter: BotContentFilter,
+  botPersonIds: number[] = []
+) => checkFilter(commentViewToFields(commentView), filter, botPersonIds);
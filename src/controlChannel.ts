@@ -0,0 +1,165 @@
+import { Person } from 'lemmy-js-client';
+import { extractInstanceFromActorId } from './helpers';
+import { BotHealth } from './types';
+
+const ALL_HANDLERS = 'all';
+
+export type BotControls = {
+  getHealth: () => BotHealth;
+  isDryRun: () => boolean;
+  setDryRun: (dryRun: boolean) => void;
+  actionQueueDepth: () => number;
+  pausedHandlers: Set<string>;
+  /**
+   * Restarts the bot once the current poll has finished
+   */
+  reload: () => void;
+  /**
+   * Stops the bot once the current poll has finished
+   */
+  stop: () => void;
+};
+
+/**
+ * Whether a person is one of the bot's owners. Identity is checked against the person's actor ID,
+ * so display names can't be used to impersonate an owner.
+ * Owners without an instance must be on the instance the message was sent on.
+ */
+export const isOwner = (
+  { name, actor_id }: Person,
+  owners: string[],
+  instance: string
+) => {
+  const fullName =
+    `${name}@${extractInstanceFromActorId(actor_id)}`.toLowerCase();
+
+  return owners.some(
+    (owner) =>
+      (owner.includes('@') ? owner : `${owner}@${instance}`).toLowerCase() ===
+      fullName
+  );
+};
+
+const formatStatus = (controls: BotControls) => {
+  const { running, accounts, handlers } = controls.getHealth();
+
+  return [
+    `**Status**: ${running ? 'running' : 'stopped'}, dry run ${controls.isDryRun() ? 'on' : 'off'}`,
+    `**Action queue**: ${controls.actionQueueDepth()} actions waiting`,
+    '',
+    '**Handlers**',
+    '',
+    ...handlers.map(
+      ({ instance, handler, lastSuccessfulPoll, paused, healthy }) =>
+        `- ${handler} on ${instance}: ${paused ? 'paused' : healthy ? 'polling' : 'not polling'}, last successful poll ${lastSuccessfulPoll?.toISOString() ?? 'never'}`
+    ),
+    ...(accounts.length > 0
+      ? [
+          '',
+          '**Accounts**',
+          '',
+          ...accounts.map(
+            ({ instance, account, loggedIn }) =>
+              `- ${account} on ${instance}: ${loggedIn ? 'logged in' : 'logged out'}`
+          )
+        ]
+      : [])
+  ].join('\n');
+};
+
+const setPaused = (
+  controls: BotControls,
+  handler: string | undefined,
+  paused: boolean
+) => {
+  const handlers = [
+    ...new Set(controls.getHealth().handlers.map(({ handler }) => handler))
+  ];
+
+  if (!handler) {
+    return `Usage: ${paused ? 'pause' : 'resume'} <handler|${ALL_HANDLERS}>`;
+  } else if (handler !== ALL_HANDLERS && !handlers.includes(handler as never)) {
+    return `Unknown handler ${handler}. Handlers: ${handlers.join(', ')}`;
+  }
+
+  for (const name of handler === ALL_HANDLERS ? handlers : [handler]) {
+    if (paused) {
+      controls.pausedHandlers.add(name);
+    } else {
+      controls.pausedHandlers.delete(name);
+    }
+  }
+
+  return `${paused ? 'Paused' : 'Resumed'} ${handler === ALL_HANDLERS ? 'all handlers' : handler}`;
+};
+
+const COMMANDS_WITHOUT_ARG = ['status', 'reload', 'stop'];
+const COMMANDS_WITH_ARG = ['pause', 'resume', 'dryrun'];
+
+const parseControlCommand = (content: string) => {
+  const [command, arg, ...rest] = content.trim().split(/\s+/);
+  const name = command.toLowerCase();
+  const commands = arg
+    ? COMMANDS_WITH_ARG
+    : [...COMMANDS_WITH_ARG, ...COMMANDS_WITHOUT_ARG];
+
+  if (rest.length > 0 || !commands.includes(name)) {
+    return undefined;
+  }
+
+  return { command: name, arg };
+};
+
+/**
+ * Whether a message is a control command, without running it
+ */
+export const isControlCommand = (content: string) =>
+  parseControlCommand(content) !== undefined;
+
+/**
+ * Runs a control command sent by one of the bot's owners
+ *
+ * @returns the reply to send, or undefined if the message isn't a control command
+ */
+export const runControlCommand = (
+  content: string,
+  controls: BotControls
+): string | undefined => {
+  const parsed = parseControlCommand(content);
+
+  if (!parsed) {
+    return undefined;
+  }
+
+  const { command, arg } = parsed;
+
+  switch (command) {
+    case 'status':
+      return formatStatus(controls);
+    case 'pause':
+      return setPaused(controls, arg, true);
+    case 'resume':
+      return setPaused(controls, arg, false);
+    case 'dryrun': {
+      const dryRun = arg?.toLowerCase();
+
+      if (dryRun !== 'on' && dryRun !== 'off') {
+        return 'Usage: dryrun <on|off>';
+      }
+
+      controls.setDryRun(dryRun === 'on');
+
+      return `Dry run is ${dryRun}`;
+    }
+    case 'reload':
+      controls.reload();
+
+      return 'Reloading';
+    case 'stop':
+      controls.stop();
+
+      return 'Stopping';
+    default:
+      return undefined;
+  }
+};
@@ -2,15 +2,20 @@ import type { sqlite3, Database } from 'sqlite3';
 import { existsSync } from 'fs';
 import { writeFile, mkdir } from 'fs/promises';
 import path from 'path';
+import {
+  BotFailedItem,
+  BotStorage,
+  BotStorageInfo,
+  BotStorageTable
+} from './types';
 
-const tableTypes = [
+export const tableTypes: readonly BotStorageTable[] = [
   'comments',
   'posts',
   'messages',
   'registrations',
   'mentions',
   'replies',
-  'comments',
   'commentReports',
   'postReports',
   'messageReports',
@@ -23,32 +28,67 @@ const tableTypes = [
   'modsAddedToCommunities',
   'modsTransferredToCommunities',
   'adminsAdded',
-  'siteBans'
-] as const;
+  'siteBans',
+  'postEdits',
+  'commentEdits',
+  'threadComments',
+  'hiddenCommunities',
+  'purgedPersons',
+  'purgedCommunities',
+  'purgedPosts',
+  'purgedComments',
+  'modlog'
+];
 
-type TableType = (typeof tableTypes)[number];
+let sqlite: sqlite3 | null | undefined = undefined;
 
-export type StorageInfoGetter = (id: number) => Promise<StorageInfo>;
-export type RowUpserter = (
-  id: number,
-  minutesUntilReprocess?: number
-) => Promise<void>;
+const loadSqlite = async () => {
+  if (sqlite === undefined) {
+    try {
+      const sqliteImport = await import('sqlite3');
+      sqlite = sqliteImport.verbose();
+    } catch {
+      sqlite = null;
+    }
+  }
 
-type DatabaseFunctions = {
-  get: StorageInfoGetter;
-  upsert: RowUpserter;
+  return sqlite;
 };
 
-export type StorageInfo = {
-  exists: boolean;
-  reprocessTime: Date | null;
-};
+export const isSqliteAvailable = async () => (await loadSqlite()) !== null;
+
+const run = (db: Database, sql: string, params: Record<string, any> = {}) =>
+  new Promise<void>((resolve, reject) => {
+    db.run(sql, params, (err) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+
+const all = <T>(db: Database, sql: string, params: Record<string, any> = {}) =>
+  new Promise<T[]>((resolve, reject) => {
+    db.all(sql, params, (err, rows: T[]) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(rows);
+      }
+    });
+  });
 
-const getRow = (db: Database, id: number, table: string) =>
-  new Promise<StorageInfo>((resolve, reject) => {
+const getRow = (
+  db: Database,
+  instance: string,
+  table: BotStorageTable,
+  id: number
+) =>
+  new Promise<BotStorageInfo>((resolve, reject) => {
     db.get(
-      `SELECT id, reprocessTime FROM ${table} WHERE id=?;`,
-      id,
+      `SELECT id, reprocessTime FROM ${table} WHERE instance=$instance AND id=$id;`,
+      { $instance: instance, $id: id },
       (err, row: { reprocessTime: number }) => {
         if (err) {
           reject(err);
@@ -63,125 +103,275 @@ const getRow = (db: Database, id: number, table: string) =>
     );
   });
 
-const upsert = (
+const createTable = (db: Database, table: BotStorageTable) =>
+  run(
+    db,
+    `CREATE TABLE IF NOT EXISTS ${table} (instance TEXT NOT NULL, id INTEGER NOT NULL, reprocessTime INTEGER, PRIMARY KEY (instance, id)) WITHOUT ROWID;`
+  );
+
+/**
+ * Tables created before rows were kept per instance don't have an instance column.
+ * Their rows are copied into a table that does, as rows of the bot's main instance.
+ */
+const migrateToInstances = async (
   db: Database,
-  id: number,
   table: string,
-  minutesUntilReprocess?: number
-) =>
-  new Promise<void>((resolve, reject) => {
-    db.run(
-      `INSERT INTO ${table} (id, reprocessTime) VALUES ($id, $reprocessTime) ON CONFLICT (id) DO UPDATE SET reprocessTime=$reprocessTime;`,
-      {
-        $id: id,
-        $reprocessTime:
-          minutesUntilReprocess && minutesUntilReprocess > 0
-            ? Date.now() + 1000 * 60 * minutesUntilReprocess
-            : null
-      },
-      (err) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      }
-    );
-  });
-
-const tableFuncMap = new Map(
-  tableTypes.map((tt) => [
-    tt,
-    {
-      get: (db: Database, id: number) => getRow(db, id, tt),
-      upsert: (db: Database, id: number, minutesUntilReprocess?: number) =>
-        upsert(db, id, tt, minutesUntilReprocess)
-    }
-  ])
-);
-
-let sqlite: sqlite3 | null | undefined = undefined;
-
-const useDatabase = async (
-  doStuffWithDB: (db: Database) => Promise<void>,
-  dbPath?: string
+  createNewTable: () => Promise<void>,
+  mainInstance?: string
 ) => {
-  if (sqlite === null) {
-    return;
-  }
+  const columns = await all<{ name: string }>(
+    db,
+    `PRAGMA table_info(${table});`
+  );
 
-  if (!sqlite) {
-    try {
-      const sqliteImport = await import('sqlite3');
-      sqlite = sqliteImport.verbose();
-    } catch {
-      console.warn(
-        'sqlite3 optional dependency is not available. This can cause your bot to respond to the same event more than once (e.g. replying multiple times to the same post). If you have intentionally chosen to omit the use of sqlite, ignore this message.'
-      );
-      return;
-    }
+  if (columns.length === 0 || columns.some(({ name }) => name === 'instance')) {
+    return;
   }
 
-  let db: Database;
-  if (!dbPath) {
-    db = new sqlite.Database(':memory:');
-  } else {
-    db = new sqlite.Database(dbPath);
+  if (!mainInstance) {
+    throw new Error(
+      `Cannot migrate ${table} table without knowing the bot's main instance. Make sure storage is initialized before it is used.`
+    );
   }
 
-  await doStuffWithDB(db);
+  await run(db, 'BEGIN TRANSACTION;');
 
-  if (dbPath) {
-    db.close();
+  try {
+    await run(db, `ALTER TABLE ${table} RENAME TO ${table}_legacy;`);
+    await createNewTable();
+    await run(
+      db,
+      `INSERT INTO ${table} SELECT $instance, * FROM ${table}_legacy;`,
+      { $instance: mainInstance }
+    );
+    await run(db, `DROP TABLE ${table}_legacy;`);
+    await run(db, 'COMMIT;');
+  } catch (err) {
+    await run(db, 'ROLLBACK;');
+    throw err;
   }
 };
 
-export const useDatabaseFunctions = (
-  table: TableType,
-  doStuff: (funcs: DatabaseFunctions) => Promise<void>,
-  dbPath?: string
-) =>
-  useDatabase(async (db) => {
-    const { get, upsert } = tableFuncMap.get(table)!;
+type FailedItemRow = {
+  instance: string;
+  tableName: BotStorageTable;
+  id: number;
+  item: string;
+  attempts: number;
+  error: string;
+  nextAttemptTime: number | null;
+};
 
-    await doStuff({
-      get: (id: number) => get(db, id),
-      upsert: (id: number, minutesUntilReprocess?: number) =>
-        upsert(db, id, minutesUntilReprocess)
-    });
-  }, dbPath);
+const createFailedItemsTable = (db: Database) =>
+  run(
+    db,
+    'CREATE TABLE IF NOT EXISTS failedItems (instance TEXT NOT NULL, tableName TEXT NOT NULL, id INTEGER NOT NULL, item TEXT NOT NULL, attempts INTEGER NOT NULL, error TEXT NOT NULL, nextAttemptTime INTEGER, PRIMARY KEY (instance, tableName, id)) WITHOUT ROWID;'
+  );
 
-const createTable = (db: Database, table: string) => {
-  db.run(
-    `CREATE TABLE IF NOT EXISTS ${table} (id INTEGER PRIMARY KEY, reprocessTime INTEGER) WITHOUT ROWID;`
+const getFailedItems = async (
+  db: Database,
+  {
+    instance,
+    table,
+    dueBefore
+  }: { instance?: string; table?: BotStorageTable; dueBefore?: Date }
+) => {
+  const conditions = [
+    ...(instance ? ['instance=$instance'] : []),
+    ...(table ? ['tableName=$table'] : []),
+    ...(dueBefore
+      ? ['nextAttemptTime IS NOT NULL', 'nextAttemptTime < $dueBefore']
+      : [])
+  ];
+  const rows = await all<FailedItemRow>(
+    db,
+    `SELECT * FROM failedItems${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''};`,
+    {
+      ...(instance ? { $instance: instance } : {}),
+      ...(table ? { $table: table } : {}),
+      ...(dueBefore ? { $dueBefore: dueBefore.getTime() } : {})
+    }
   );
 
-  db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_id ON ${table} (id);`);
+  return rows.map(
+    ({ tableName, item, nextAttemptTime, ...row }): BotFailedItem => ({
+      ...row,
+      table: tableName,
+      item: JSON.parse(item),
+      nextAttemptTime:
+        nextAttemptTime === null ? null : new Date(nextAttemptTime)
+    })
+  );
 };
 
-export const setupDB = async (
-  log: (output: string) => void,
-  dbPath?: string
-) => {
-  if (dbPath && !existsSync(dbPath)) {
-    log('Creating database file');
+const createStateTable = (db: Database) =>
+  run(
+    db,
+    'CREATE TABLE IF NOT EXISTS state (scope TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, expiresAt INTEGER, PRIMARY KEY (scope, key)) WITHOUT ROWID;'
+  );
 
-    try {
+const getState = (db: Database, scope: string, key: string) =>
+  new Promise<string | undefined>((resolve, reject) => {
+    db.get(
+      'SELECT value FROM state WHERE scope=$scope AND key=$key AND (expiresAt IS NULL OR expiresAt > $now);',
+      { $scope: scope, $key: key, $now: Date.now() },
+      (err, row: { value: string } | undefined) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row?.value);
+        }
+      }
+    );
+  });
+
+/**
+ * Storage backed by SQLite. Requires the optional sqlite3 dependency.
+ *
+ * @param dbPath - File to store the database in. Will be created if it does not exist.
+ * If not provided, the database is kept in memory.
+ */
+export const createSqliteStorage = (dbPath?: string): BotStorage => {
+  let dbPromise: Promise<Database> | undefined;
+  let mainInstance: string | undefined;
+
+  const openDatabase = async () => {
+    const sqlite = await loadSqlite();
+
+    if (!sqlite) {
+      throw new Error(
+        'sqlite3 optional dependency is not available. Install it or provide a different storage option.'
+      );
+    }
+
+    if (dbPath && !existsSync(dbPath)) {
       await mkdir(path.dirname(dbPath), { recursive: true });
       await writeFile(dbPath, '');
-    } catch (error) {
-      console.log('Error making database file: ' + error);
+    }
+
+    const db = new sqlite.Database(dbPath ?? ':memory:');
 
-      process.exit(1);
+    for (const table of tableTypes) {
+      await migrateToInstances(
+        db,
+        table,
+        () => createTable(db, table),
+        mainInstance
+      );
+      await createTable(db, table);
     }
-  }
 
-  await useDatabase(async (db) => {
-    db.serialize(() => {
-      log('Initializing DB');
-      for (const table of tableTypes) {
-        createTable(db, table);
+    await migrateToInstances(
+      db,
+      'failedItems',
+      () => createFailedItemsTable(db),
+      mainInstance
+    );
+    await createFailedItemsTable(db);
+    await createStateTable(db);
+
+    return db;
+  };
+
+  const getDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((err) => {
+        dbPromise = undefined;
+        throw err;
+      });
+    }
+
+    return dbPromise;
+  };
+
+  return {
+    init: async (instance) => {
+      mainInstance = instance;
+      await getDatabase();
+    },
+    get: async (instance, table, id) =>
+      getRow(await getDatabase(), instance, table, id),
+    upsert: async (instance, table, id, reprocessTime) =>
+      run(
+        await getDatabase(),
+        `INSERT INTO ${table} (instance, id, reprocessTime) VALUES ($instance, $id, $reprocessTime) ON CONFLICT (instance, id) DO UPDATE SET reprocessTime=$reprocessTime;`,
+        {
+          $instance: instance,
+          $id: id,
+          $reprocessTime: reprocessTime ? reprocessTime.getTime() : null
+        }
+      ),
+    prune: async (table, before) =>
+      run(
+        await getDatabase(),
+        `DELETE FROM ${table} WHERE reprocessTime IS NOT NULL AND reprocessTime < $before;`,
+        { $before: before.getTime() }
+      ),
+    getFailedItems: async (options = {}) =>
+      getFailedItems(await getDatabase(), options),
+    upsertFailedItem: async ({
+      instance,
+      table,
+      id,
+      item,
+      attempts,
+      error,
+      nextAttemptTime
+    }) =>
+      run(
+        await getDatabase(),
+        'INSERT INTO failedItems (instance, tableName, id, item, attempts, error, nextAttemptTime) VALUES ($instance, $table, $id, $item, $attempts, $error, $nextAttemptTime) ON CONFLICT (instance, tableName, id) DO UPDATE SET item=$item, attempts=$attempts, error=$error, nextAttemptTime=$nextAttemptTime;',
+        {
+          $instance: instance,
+          $table: table,
+          $id: id,
+          $item: JSON.stringify(item),
+          $attempts: attempts,
+          $error: error,
+          $nextAttemptTime: nextAttemptTime ? nextAttemptTime.getTime() : null
+        }
+      ),
+    deleteFailedItem: async (instance, table, id) =>
+      run(
+        await getDatabase(),
+        'DELETE FROM failedItems WHERE instance=$instance AND tableName=$table AND id=$id;',
+        { $instance: instance, $table: table, $id: id }
+      ),
+    getState: async (scope, key) => getState(await getDatabase(), scope, key),
+    setState: async (scope, key, value, expiresAt) =>
+      run(
+        await getDatabase(),
+        'INSERT INTO state (scope, key, value, expiresAt) VALUES ($scope, $key, $value, $expiresAt) ON CONFLICT (scope, key) DO UPDATE SET value=$value, expiresAt=$expiresAt;',
+        {
+          $scope: scope,
+          $key: key,
+          $value: value,
+          $expiresAt: expiresAt ? expiresAt.getTime() : null
+        }
+      ),
+    deleteState: async (scope, key) =>
+      run(
+        await getDatabase(),
+        'DELETE FROM state WHERE scope=$scope AND key=$key;',
+        { $scope: scope, $key: key }
+      ),
+    pruneState: async (before) =>
+      run(
+        await getDatabase(),
+        'DELETE FROM state WHERE expiresAt IS NOT NULL AND expiresAt <= $before;',
+        { $before: before.getTime() }
+      ),
+    close: async () => {
+      if (!dbPromise) {
+        return;
       }
-    });
-  }, dbPath);
+
+      const db = await dbPromise;
+      dbPromise = undefined;
+
+      await new Promise<void>((resolve, reject) =>
+        db.close((err) => (err ? reject(err) : resolve()))
+      );
+    }
+  };
 };
@@ -0,0 +1,608 @@
+import { appendFile, writeFile } from 'fs/promises';
+import {
+  AddModToCommunity,
+  AddModToCommunityResponse,
+  ApproveRegistrationApplication,
+  BanFromCommunity,
+  BanFromCommunityResponse,
+  BanPerson,
+  BanPersonResponse,
+  BlockCommunity,
+  BlockCommunityResponse,
+  BlockInstance,
+  BlockInstanceResponse,
+  BlockPerson,
+  BlockPersonResponse,
+  Comment,
+  CommentReplyResponse,
+  CommentReportResponse,
+  CommentResponse,
+  CommunityResponse,
+  CreateComment,
+  CreateCommunity,
+  CreateCommentLike,
+  CreateCommentReport,
+  CreatePost,
+  CreatePostLike,
+  CreatePostReport,
+  CreatePrivateMessage,
+  CreatePrivateMessageReport,
+  DeleteComment,
+  DeletePost,
+  DeletePrivateMessage,
+  DistinguishComment,
+  EditComment,
+  EditCommunity,
+  EditPost,
+  EditPrivateMessage,
+  FeaturePost,
+  FollowCommunity,
+  GetCommunityResponse,
+  GetRepliesResponse,
+  LockPost,
+  MarkCommentReplyAsRead,
+  MarkPersonMentionAsRead,
+  MarkPrivateMessageAsRead,
+  Person,
+  PersonMentionResponse,
+  Post,
+  PostReportResponse,
+  PostResponse,
+  PrivateMessageReportResponse,
+  PrivateMessageResponse,
+  RegistrationApplicationResponse,
+  RemoveComment,
+  RemovePost,
+  ResolveCommentReport,
+  ResolvePostReport,
+  ResolvePrivateMessageReport,
+  SaveComment,
+  SavePost,
+  SuccessResponse,
+  TransferCommunity,
+  UploadImageResponse
+} from 'lemmy-js-client';
+import {
+  fakeComment,
+  fakeCommentReplyView,
+  fakeCommentReportView,
+  fakeCommentView,
+  fakeCommunity,
+  fakeCommunityView,
+  fakePerson,
+  fakePersonMentionView,
+  fakePersonView,
+  fakePost,
+  fakePostReportView,
+  fakePostView,
+  fakePrivateMessage,
+  fakePrivateMessageReportView,
+  fakePrivateMessageView,
+  fakeRegistrationApplicationView
+} from './fakeViews';
+import { formatError } from './helpers';
+import { BotDryRunAction, BotLogger } from './types';
+
+const MAX_TRANSCRIPT_ENTRIES = 1000;
+
+type Simulators = ReturnType<typeof createSimulators>;
+type SimulatedAction = keyof Simulators;
+type SimulatorForm<K extends SimulatedAction> = Simulators[K] extends (
+  form: infer F
+) => any
+  ? F
+  : never;
+
+const postResponse = (post: Partial<Post>, creator?: Person): PostResponse => ({
+  post_view: fakePostView({
+    post: fakePost(post),
+    ...(creator ? { creator } : {})
+  })
+});
+
+const commentResponse = (
+  comment: Partial<Comment>,
+  creator?: Person
+): CommentResponse => ({
+  comment_view: fakeCommentView({
+    comment: fakeComment(comment),
+    ...(creator ? { creator } : {})
+  }),
+  recipient_ids: []
+});
+
+const createSimulators = ({
+  fakeId,
+  getBotPerson
+}: {
+  fakeId: () => number;
+  getBotPerson: () => Person;
+}) => ({
+  createPost: ({
+    name,
+    community_id,
+    url,
+    body,
+    alt_text,
+    nsfw = false,
+    language_id = 0
+  }: CreatePost): PostResponse =>
+    postResponse(
+      {
+        id: fakeId(),
+        name,
+        community_id,
+        creator_id: getBotPerson().id,
+        url,
+        body,
+        alt_text,
+        nsfw,
+        language_id
+      },
+      getBotPerson()
+    ),
+  editPost: ({ post_id, ...form }: EditPost): PostResponse =>
+    postResponse(
+      {
+        ...form,
+        id: post_id,
+        creator_id: getBotPerson().id,
+        updated: new Date().toISOString()
+      },
+      getBotPerson()
+    ),
+  votePost: ({ post_id, score }: CreatePostLike): PostResponse => {
+    const response = postResponse({ id: post_id });
+    response.post_view.my_vote = score;
+
+    return response;
+  },
+  removePost: ({ post_id, removed }: RemovePost): PostResponse =>
+    postResponse({ id: post_id, removed }),
+  featurePost: ({
+    post_id,
+    featured,
+    feature_type
+  }: FeaturePost): PostResponse =>
+    postResponse({
+      id: post_id,
+      ...(feature_type === 'Community'
+        ? { featured_community: featured }
+        : { featured_local: featured })
+    }),
+  lockPost: ({ post_id, locked }: LockPost): PostResponse =>
+    postResponse({ id: post_id, locked }),
+  hidePost: (): SuccessResponse => ({ success: true }),
+  reportPost: ({ post_id, reason }: CreatePostReport): PostReportResponse => ({
+    post_report_view: fakePostReportView({
+      id: fakeId(),
+      reason,
+      post: fakePost({ id: post_id }),
+      creator: getBotPerson()
+    })
+  }),
+  resolvePostReport: ({
+    report_id,
+    resolved
+  }: ResolvePostReport): PostReportResponse => ({
+    post_report_view: fakePostReportView({
+      id: report_id,
+      reason: '',
+      resolved
+    })
+  }),
+  createComment: ({
+    content,
+    post_id,
+    parent_id,
+    language_id = 0
+  }: CreateComment): CommentResponse => {
+    const id = fakeId();
+
+    return commentResponse(
+      {
+        id,
+        content,
+        post_id,
+        language_id,
+        creator_id: getBotPerson().id,
+        path: parent_id ? `0.${parent_id}.${id}` : `0.${id}`
+      },
+      getBotPerson()
+    );
+  },
+  editComment: ({
+    comment_id,
+    content,
+    language_id
+  }: EditComment): CommentResponse =>
+    commentResponse(
+      {
+        id: comment_id,
+        creator_id: getBotPerson().id,
+        updated: new Date().toISOString(),
+        ...(content !== undefined ? { content } : {}),
+        ...(language_id !== undefined ? { language_id } : {})
+      },
+      getBotPerson()
+    ),
+  voteComment: ({ comment_id, score }: CreateCommentLike): CommentResponse => {
+    const response = commentResponse({ id: comment_id });
+    response.comment_view.my_vote = score;
+
+    return response;
+  },
+  distinguishComment: ({
+    comment_id,
+    distinguished
+  }: DistinguishComment): CommentResponse =>
+    commentResponse({ id: comment_id, distinguished }),
+  removeComment: ({ comment_id, removed }: RemoveComment): CommentResponse =>
+    commentResponse({ id: comment_id, removed }),
+  reportComment: ({
+    comment_id,
+    reason
+  }: CreateCommentReport): CommentReportResponse => ({
+    comment_report_view: fakeCommentReportView({
+      id: fakeId(),
+      reason,
+      comment: fakeComment({ id: comment_id }),
+      creator: getBotPerson()
+    })
+  }),
+  resolveCommentReport: ({
+    report_id,
+    resolved
+  }: ResolveCommentReport): CommentReportResponse => ({
+    comment_report_view: fakeCommentReportView({
+      id: report_id,
+      reason: '',
+      resolved
+    })
+  }),
+  sendPrivateMessage: ({
+    content,
+    recipient_id
+  }: CreatePrivateMessage): PrivateMessageResponse => ({
+    private_message_view: fakePrivateMessageView({
+      private_message: fakePrivateMessage({
+        id: fakeId(),
+        content,
+        recipient_id,
+        creator_id: getBotPerson().id
+      }),
+      creator: getBotPerson()
+    })
+  }),
+  reportPrivateMessage: ({
+    private_message_id,
+    reason
+  }: CreatePrivateMessageReport): PrivateMessageReportResponse => ({
+    private_message_report_view: fakePrivateMessageReportView({
+      id: fakeId(),
+      reason,
+      private_message: fakePrivateMessage({ id: private_message_id }),
+      creator: getBotPerson()
+    })
+  }),
+  resolvePrivateMessageReport: ({
+    report_id,
+    resolved
+  }: ResolvePrivateMessageReport): PrivateMessageReportResponse => ({
+    private_message_report_view: fakePrivateMessageReportView({
+      id: report_id,
+      reason: '',
+      resolved
+    })
+  }),
+  markPrivateMessageAsRead: ({
+    private_message_id,
+    read
+  }: MarkPrivateMessageAsRead): PrivateMessageResponse => ({
+    private_message_view: fakePrivateMessageView({
+      private_message: fakePrivateMessage({
+        id: private_message_id,
+        recipient_id: getBotPerson().id,
+        read
+      }),
+      recipient: getBotPerson()
+    })
+  }),
+  markPersonMentionAsRead: ({
+    person_mention_id,
+    read
+  }: MarkPersonMentionAsRead): PersonMentionResponse => ({
+    person_mention_view: fakePersonMentionView({
+      id: person_mention_id,
+      read,
+      recipient: getBotPerson()
+    })
+  }),
+  markCommentReplyAsRead: ({
+    comment_reply_id,
+    read
+  }: MarkCommentReplyAsRead): CommentReplyResponse => ({
+    comment_reply_view: fakeCommentReplyView({
+      id: comment_reply_id,
+      read,
+      recipient: getBotPerson()
+    })
+  }),
+  banFromCommunity: ({
+    person_id,
+    ban
+  }: BanFromCommunity): BanFromCommunityResponse => ({
+    person_view: fakePersonView(fakePerson({ id: person_id })),
+    banned: ban
+  }),
+  banFromSite: ({ person_id, ban, expires }: BanPerson): BanPersonResponse => ({
+    person_view: fakePersonView(
+      fakePerson({
+        id: person_id,
+        banned: ban,
+        ...(ban && expires
+          ? { ban_expires: new Date(expires * 1000).toISOString() }
+          : {})
+      })
+    ),
+    banned: ban
+  }),
+  approveRegistrationApplication: ({
+    id,
+    deny_reason,
+    approve
+  }: ApproveRegistrationApplication): RegistrationApplicationResponse => ({
+    registration_application: fakeRegistrationApplicationView({
+      id,
+      admin_id: getBotPerson().id,
+      ...(approve ? {} : { deny_reason })
+    })
+  }),
+  followCommunity: ({
+    community_id,
+    follow
+  }: FollowCommunity): CommunityResponse => {
+    const community_view = fakeCommunityView(
+      fakeCommunity({ id: community_id })
+    );
+    community_view.subscribed = follow ? 'Subscribed' : 'NotSubscribed';
+
+    return { community_view, discussion_languages: [] };
+  },
+  createCommunity: ({
+    name,
+    title,
+    description,
+    icon,
+    banner,
+    nsfw = false,
+    posting_restricted_to_mods = false,
+    visibility = 'Public',
+    discussion_languages = []
+  }: CreateCommunity): CommunityResponse => ({
+    community_view: fakeCommunityView(
+      fakeCommunity({
+        id: fakeId(),
+        name,
+        title,
+        description,
+        icon,
+        banner,
+        nsfw,
+        posting_restricted_to_mods,
+        visibility
+      })
+    ),
+    discussion_languages
+  }),
+  editCommunity: ({
+    community_id,
+    discussion_languages = [],
+    ...form
+  }: EditCommunity): CommunityResponse => ({
+    community_view: fakeCommunityView(
+      fakeCommunity({
+        ...form,
+        id: community_id,
+        updated: new Date().toISOString()
+      })
+    ),
+    discussion_languages
+  }),
+  addModToCommunity: ({
+    community_id,
+    person_id,
+    added
+  }: AddModToCommunity): AddModToCommunityResponse => ({
+    moderators: added
+      ? [
+          {
+            community: fakeCommunity({ id: community_id }),
+            moderator: fakePerson({ id: person_id })
+          }
+        ]
+      : []
+  }),
+  transferCommunity: ({
+    community_id,
+    person_id
+  }: TransferCommunity): GetCommunityResponse => {
+    const community = fakeCommunity({ id: community_id });
+
+    return {
+      community_view: fakeCommunityView(community),
+      moderators: [{ community, moderator: fakePerson({ id: person_id }) }],
+      discussion_languages: []
+    };
+  },
+  hideCommunity: (): SuccessResponse => ({ success: true }),
+  deletePost: ({ post_id, deleted }: DeletePost): PostResponse =>
+    postResponse(
+      { id: post_id, creator_id: getBotPerson().id, deleted },
+      getBotPerson()
+    ),
+  deleteComment: ({ comment_id, deleted }: DeleteComment): CommentResponse =>
+    commentResponse(
+      { id: comment_id, creator_id: getBotPerson().id, deleted },
+      getBotPerson()
+    ),
+  editPrivateMessage: ({
+    private_message_id,
+    content
+  }: EditPrivateMessage): PrivateMessageResponse => ({
+    private_message_view: fakePrivateMessageView({
+      private_message: fakePrivateMessage({
+        id: private_message_id,
+        content,
+        creator_id: getBotPerson().id,
+        updated: new Date().toISOString()
+      }),
+      creator: getBotPerson()
+    })
+  }),
+  deletePrivateMessage: ({
+    private_message_id,
+    deleted
+  }: DeletePrivateMessage): PrivateMessageResponse => ({
+    private_message_view: fakePrivateMessageView({
+      private_message: fakePrivateMessage({
+        id: private_message_id,
+        creator_id: getBotPerson().id,
+        deleted
+      }),
+      creator: getBotPerson()
+    })
+  }),
+  savePost: ({ post_id, save }: SavePost): PostResponse => {
+    const response = postResponse({ id: post_id });
+    response.post_view.saved = save;
+
+    return response;
+  },
+  saveComment: ({ comment_id, save }: SaveComment): CommentResponse => {
+    const response = commentResponse({ id: comment_id });
+    response.comment_view.saved = save;
+
+    return response;
+  },
+  blockPerson: ({ person_id, block }: BlockPerson): BlockPersonResponse => ({
+    person_view: fakePersonView(fakePerson({ id: person_id })),
+    blocked: block
+  }),
+  blockCommunity: ({
+    community_id,
+    block
+  }: BlockCommunity): BlockCommunityResponse => ({
+    community_view: fakeCommunityView(fakeCommunity({ id: community_id })),
+    blocked: block
+  }),
+  blockInstance: ({ block }: BlockInstance): BlockInstanceResponse => ({
+    blocked: block
+  }),
+  markAllAsRead: (): GetRepliesResponse => ({ replies: [] }),
+  saveUserSettings: (): SuccessResponse => ({ success: true }),
+  uploadImage: (image: Buffer): UploadImageResponse => {
+    const name = `dry-run-${-fakeId()}-${image.length}`;
+
+    return {
+      msg: 'ok',
+      url: `https://dry-run.invalid/pictrs/image/${name}`,
+      delete_url: `https://dry-run.invalid/pictrs/image/delete/${name}`
+    };
+  }
+});
+
+export type DryRunSimulation<T> = {
+  action: SimulatedAction;
+  form: unknown;
+  response: () => T;
+};
+
+export default class DryRun {
+  #nextId = -1;
+  #transcript: BotDryRunAction[] = [];
+  #transcriptFile?: string;
+  #logger: BotLogger;
+  #writeQueue = Promise.resolve();
+  #simulators = createSimulators({
+    fakeId: () => this.#nextId--,
+    getBotPerson: () => this.botPerson
+  });
+  /**
+   * Person to use as the creator of anything the bot would create
+   */
+  botPerson: Person = fakePerson({ bot_account: true });
+
+  constructor(logger: BotLogger, transcriptFile?: string) {
+    this.#logger = logger;
+    this.#transcriptFile = transcriptFile;
+  }
+
+  get transcript() {
+    return [...this.#transcript];
+  }
+
+  /**
+   * Describe an action to simulate instead of performing it
+   */
+  simulate<K extends SimulatedAction>(
+    action: K,
+    form: SimulatorForm<K>
+  ): DryRunSimulation<ReturnType<Simulators[K]>> {
+    return {
+      action,
+      form,
+      response: () =>
+        (
+          this.#simulators[action] as (
+            form: unknown
+          ) => ReturnType<Simulators[K]>
+        )(form)
+    };
+  }
+
+  /**
+   * Record a simulated action in the transcript and synthesize its response
+   */
+  run<T>(
+    { action, form, response }: DryRunSimulation<T>,
+    description: string,
+    account?: string
+  ) {
+    const entry: BotDryRunAction = {
+      action,
+      description,
+      form: Buffer.isBuffer(form) ? { size: form.length } : form,
+      account,
+      timestamp: new Date().toISOString()
+    };
+    this.#transcript.push(entry);
+    if (this.#transcript.length > MAX_TRANSCRIPT_ENTRIES) {
+      this.#transcript.shift();
+    }
+
+    if (this.#transcriptFile) {
+      const transcriptFile = this.#transcriptFile;
+      this.#writeQueue = this.#writeQueue
+        .then(() => appendFile(transcriptFile, `${JSON.stringify(entry)}\n`))
+        .catch((error) =>
+          this.#logger.error(
+            `Could not write to dry run transcript file: ${formatError(error)}`
+          )
+        );
+    }
+
+    return response();
+  }
+
+  async writeTranscript(filePath: string) {
+    await writeFile(filePath, JSON.stringify(this.#transcript, null, 2));
+  }
+
+  /**
+   * Wait for transcript entries to finish being written to the transcript file
+   */
+  flush() {
+    return this.#writeQueue;
+  }
+}
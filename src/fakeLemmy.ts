@@ -0,0 +1,1249 @@
+import {
+  Comment,
+  CommentAggregates,
+  CommentReplyView,
+  CommentReportView,
+  CommentView,
+  Community,
+  GetModlogResponse,
+  LemmyHttp,
+  Person,
+  PersonMentionView,
+  Post,
+  PostAggregates,
+  PostReportView,
+  PostView,
+  PrivateMessageReportView,
+  PrivateMessageView,
+  RegistrationApplicationView,
+  SearchType,
+  VoteView
+} from 'lemmy-js-client';
+import {
+  fakeComment,
+  fakeCommentReplyView,
+  fakeCommentReportView,
+  fakeCommentView,
+  fakeCommunity,
+  fakeCommunityView,
+  fakeGetSiteResponse,
+  fakePerson,
+  fakePersonMentionView,
+  fakePersonView,
+  fakePost,
+  fakePostReportView,
+  fakePostView,
+  fakePrivateMessage,
+  fakePrivateMessageReportView,
+  fakePrivateMessageView,
+  fakeRegistrationApplicationView
+} from './fakeViews';
+
+const DEFAULT_INSTANCE = 'lemmy.test';
+const DEFAULT_COMMUNITY_NAME = 'test';
+const DEFAULT_PERSON_NAME = 'user';
+const FAKE_JWT = 'fake-jwt';
+
+type ModlogEntry<K extends keyof GetModlogResponse> =
+  GetModlogResponse[K][number];
+
+const emptyModlog = (): GetModlogResponse => ({
+  removed_posts: [],
+  locked_posts: [],
+  featured_posts: [],
+  removed_comments: [],
+  removed_communities: [],
+  banned_from_community: [],
+  banned: [],
+  added_to_community: [],
+  transferred_to_community: [],
+  added: [],
+  admin_purged_persons: [],
+  admin_purged_communities: [],
+  admin_purged_posts: [],
+  admin_purged_comments: [],
+  hidden_communities: []
+});
+
+const paginate = <T>(
+  items: T[],
+  { page = 1, limit = 10 }: { page?: number; limit?: number }
+) => items.slice((page - 1) * limit, page * limit);
+
+const newestFirst = <T>(items: Map<number, T>) => [...items.values()].reverse();
+
+const findOrThrow = <T>(item: T | undefined, error: string) => {
+  if (item === undefined) {
+    throw new Error(error);
+  }
+
+  return item;
+};
+
+const applyVote = (
+  counts: PostAggregates | CommentAggregates,
+  previousScore: number,
+  score: number
+) => {
+  counts.score += score - previousScore;
+  counts.upvotes += (score === 1 ? 1 : 0) - (previousScore === 1 ? 1 : 0);
+  counts.downvotes += (score === -1 ? 1 : 0) - (previousScore === -1 ? 1 : 0);
+};
+
+const escapeRegExp = (str: string) =>
+  str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const unsupportedFetch = ((input: RequestInfo | URL) =>
+  Promise.reject(
+    new Error(`Fake Lemmy does not support request to ${input}`)
+  )) as typeof fetch;
+
+/**
+ * In-memory stand-in for a Lemmy instance, for testing bots without a real instance.
+ * Items added to it are returned by {@link FakeLemmy.client}, which can be used in place of a `LemmyHttp`.
+ */
+export default class FakeLemmy {
+  readonly instance: string;
+  /**
+   * Account the bot logs in as
+   */
+  readonly botPerson: Person;
+  /**
+   * Client that reads from and writes to the fake instance instead of making requests
+   */
+  readonly client: LemmyHttp;
+  #nextId = 1;
+  #isLoggedIn = false;
+  #persons = new Map<number, Person>();
+  #communities = new Map<number, Community>();
+  #posts = new Map<number, PostView>();
+  #comments = new Map<number, CommentView>();
+  #privateMessages = new Map<number, PrivateMessageView>();
+  #mentions = new Map<number, PersonMentionView>();
+  #replies = new Map<number, CommentReplyView>();
+  #postReports = new Map<number, PostReportView>();
+  #commentReports = new Map<number, CommentReportView>();
+  #privateMessageReports = new Map<number, PrivateMessageReportView>();
+  #registrationApplications = new Map<number, RegistrationApplicationView>();
+  #postVotes = new Map<number, number>();
+  #commentVotes = new Map<number, number>();
+  /**
+   * IDs of each community's moderators, keyed by community ID, starting with the top moderator
+   */
+  #moderators = new Map<number, number[]>();
+  #modlog = emptyModlog();
+
+  constructor({
+    instance = DEFAULT_INSTANCE,
+    botName = 'testbot'
+  }: {
+    instance?: string;
+    botName?: string;
+  } = {}) {
+    this.instance = instance;
+    this.botPerson = this.addPerson(botName);
+    this.client = this.#createClient();
+  }
+
+  get posts() {
+    return [...this.#posts.values()];
+  }
+
+  get comments() {
+    return [...this.#comments.values()];
+  }
+
+  get privateMessages() {
+    return [...this.#privateMessages.values()];
+  }
+
+  /**
+   * Add a person. Names with an instance, e.g. 'alice@other.instance', create a federated person.
+   */
+  addPerson(name: string, overrides: Partial<Person> = {}) {
+    const person = fakePerson({
+      id: this.#id(),
+      ...this.#actor('u', name),
+      ...overrides
+    });
+    this.#persons.set(person.id, person);
+
+    return person;
+  }
+
+  /**
+   * Add a community. Names with an instance, e.g. 'news@other.instance', create a federated community.
+   */
+  addCommunity(name: string, overrides: Partial<Community> = {}) {
+    const community = fakeCommunity({
+      id: this.#id(),
+      title: name,
+      ...this.#actor('c', name),
+      ...overrides
+    });
+    this.#communities.set(community.id, community);
+
+    return community;
+  }
+
+  /**
+   * Make a person a moderator of a community
+   */
+  addModerator({
+    community,
+    person
+  }: {
+    community: Community | string;
+    person: Person | string;
+  }) {
+    const { id: communityId } = this.#resolveCommunity(community);
+    const { id: personId } = this.#resolvePerson(person);
+    const moderatorIds = this.#moderators.get(communityId) ?? [];
+
+    if (!moderatorIds.includes(personId)) {
+      this.#moderators.set(communityId, [...moderatorIds, personId]);
+    }
+  }
+
+  addPost({
+    name,
+    community,
+    creator,
+    ...overrides
+  }: {
+    name: string;
+    /**
+     * Community or community name. Defaults to a community named 'test'.
+     */
+    community?: Community | string;
+    /**
+     * Person or username. Defaults to a person named 'user'.
+     */
+    creator?: Person | string;
+  } & Partial<Omit<Post, 'name' | 'community_id' | 'creator_id'>>) {
+    const id = this.#id();
+    const postCommunity = this.#resolveCommunity(community);
+    const postCreator = this.#resolvePerson(creator);
+    const postView = fakePostView({
+      post: fakePost({
+        id,
+        name,
+        community_id: postCommunity.id,
+        creator_id: postCreator.id,
+        ap_id: `https://${this.instance}/post/${id}`,
+        ...overrides
+      }),
+      creator: postCreator,
+      community: postCommunity
+    });
+    this.#posts.set(id, postView);
+
+    return postView;
+  }
+
+  /**
+   * Add a comment. Comments replying to the bot's posts or comments show up in its replies,
+   * and other comments that mention the bot show up in its mentions.
+   */
+  addComment({
+    post,
+    content,
+    parent,
+    creator,
+    ...overrides
+  }: {
+    post: PostView | number;
+    content: string;
+    parent?: CommentView | number;
+    /**
+     * Person or username. Defaults to a person named 'user'.
+     */
+    creator?: Person | string;
+  } & Partial<Omit<Comment, 'post_id' | 'content' | 'creator_id' | 'path'>>) {
+    const id = this.#id();
+    const postView = this.#requirePost(
+      typeof post === 'number' ? post : post.post.id
+    );
+    const parentView =
+      parent === undefined
+        ? undefined
+        : this.#requireComment(
+            typeof parent === 'number' ? parent : parent.comment.id
+          );
+    const commentCreator = this.#resolvePerson(creator);
+    const commentView = fakeCommentView({
+      comment: fakeComment({
+        id,
+        post_id: postView.post.id,
+        creator_id: commentCreator.id,
+        content,
+        ap_id: `https://${this.instance}/comment/${id}`,
+        path: `${parentView?.comment.path ?? '0'}.${id}`,
+        ...overrides
+      }),
+      creator: commentCreator,
+      post: postView.post,
+      community: postView.community
+    });
+    this.#comments.set(id, commentView);
+    ++postView.counts.comments;
+
+    if (parentView) {
+      ++parentView.counts.child_count;
+    }
+
+    if (commentCreator.id !== this.botPerson.id) {
+      const parentCreatorId =
+        parentView?.creator.id ?? postView.post.creator_id;
+
+      if (parentCreatorId === this.botPerson.id) {
+        const replyId = this.#id();
+        this.#replies.set(
+          replyId,
+          fakeCommentReplyView({
+            ...commentView,
+            id: replyId,
+            recipient: this.botPerson
+          })
+        );
+      } else if (this.#mentionsBot(content)) {
+        const mentionId = this.#id();
+        this.#mentions.set(
+          mentionId,
+          fakePersonMentionView({
+            ...commentView,
+            id: mentionId,
+            recipient: this.botPerson
+          })
+        );
+      }
+    }
+
+    return commentView;
+  }
+
+  /**
+   * Send a private message. Messages are sent to the bot unless a recipient is given.
+   */
+  sendPrivateMessage({
+    content,
+    creator,
+    recipient = this.botPerson
+  }: {
+    content: string;
+    /**
+     * Person or username. Defaults to a person named 'user'.
+     */
+    creator?: Person | string;
+    recipient?: Person;
+  }) {
+    const messageCreator = this.#resolvePerson(creator);
+    const messageView = fakePrivateMessageView({
+      private_message: fakePrivateMessage({
+        id: this.#id(),
+        content,
+        creator_id: messageCreator.id,
+        recipient_id: recipient.id
+      }),
+      creator: messageCreator,
+      recipient
+    });
+    this.#privateMessages.set(messageView.private_message.id, messageView);
+
+    return messageView;
+  }
+
+  reportPost({
+    post,
+    reason,
+    creator
+  }: {
+    post: PostView | number;
+    reason: string;
+    creator?: Person | string;
+  }) {
+    const postView = this.#requirePost(
+      typeof post === 'number' ? post : post.post.id
+    );
+    const reportView = fakePostReportView({
+      id: this.#id(),
+      reason,
+      post: postView.post,
+      community: postView.community,
+      creator: this.#resolvePerson(creator)
+    });
+    this.#postReports.set(reportView.post_report.id, reportView);
+
+    return reportView;
+  }
+
+  reportComment({
+    comment,
+    reason,
+    creator
+  }: {
+    comment: CommentView | number;
+    reason: string;
+    creator?: Person | string;
+  }) {
+    const commentView = this.#requireComment(
+      typeof comment === 'number' ? comment : comment.comment.id
+    );
+    const reportView = fakeCommentReportView({
+      id: this.#id(),
+      reason,
+      comment: commentView.comment,
+      post: commentView.post,
+      community: commentView.community,
+      creator: this.#resolvePerson(creator)
+    });
+    this.#commentReports.set(reportView.comment_report.id, reportView);
+
+    return reportView;
+  }
+
+  reportPrivateMessage({
+    privateMessage,
+    reason,
+    creator
+  }: {
+    privateMessage: PrivateMessageView | number;
+    reason: string;
+    creator?: Person | string;
+  }) {
+    const reportView = fakePrivateMessageReportView({
+      id: this.#id(),
+      reason,
+      private_message: this.#requirePrivateMessage(
+        typeof privateMessage === 'number'
+          ? privateMessage
+          : privateMessage.private_message.id
+      ).private_message,
+      creator: this.#resolvePerson(creator)
+    });
+    this.#privateMessageReports.set(
+      reportView.private_message_report.id,
+      reportView
+    );
+
+    return reportView;
+  }
+
+  addRegistrationApplication({
+    answer,
+    creator
+  }: {
+    answer: string;
+    creator?: Person | string;
+  }) {
+    const applicationView = fakeRegistrationApplicationView({
+      id: this.#id(),
+      answer,
+      creator: this.#resolvePerson(creator)
+    });
+    this.#registrationApplications.set(
+      applicationView.registration_application.id,
+      applicationView
+    );
+
+    return applicationView;
+  }
+
+  /**
+   * Add an entry to the modlog, e.g. `addModlogEntry('removed_posts', removedPostView)`
+   */
+  addModlogEntry<K extends keyof GetModlogResponse>(
+    type: K,
+    entry: ModlogEntry<K>
+  ) {
+    (this.#modlog[type] as ModlogEntry<K>[]).push(entry);
+
+    return entry;
+  }
+
+  #id() {
+    return this.#nextId++;
+  }
+
+  #actor(type: 'u' | 'c', fullName: string) {
+    const [name, instance = this.instance] = fullName.split('@');
+
+    return {
+      name,
+      actor_id: `https://${instance}/${type}/${name}`,
+      local: instance === this.instance
+    };
+  }
+
+  #findByFullName<T extends { name: string; actor_id: string }>(
+    items: Map<number, T>,
+    type: 'u' | 'c',
+    fullName: string
+  ) {
+    const { actor_id } = this.#actor(type, fullName);
+
+    return [...items.values()].find((item) => item.actor_id === actor_id);
+  }
+
+  #resolvePerson(person: Person | string = DEFAULT_PERSON_NAME) {
+    return typeof person === 'string'
+      ? (this.#findByFullName(this.#persons, 'u', person) ??
+          this.addPerson(person))
+      : person;
+  }
+
+  #resolveCommunity(community: Community | string = DEFAULT_COMMUNITY_NAME) {
+    return typeof community === 'string'
+      ? (this.#findByFullName(this.#communities, 'c', community) ??
+          this.addCommunity(community))
+      : community;
+  }
+
+  #mentionsBot(content: string) {
+    return new RegExp(
+      `@${escapeRegExp(this.botPerson.name)}(@${escapeRegExp(this.instance)})?(?![\\w@.-])`,
+      'i'
+    ).test(content);
+  }
+
+  #requirePost(id: number) {
+    return findOrThrow(this.#posts.get(id), 'couldnt_find_post');
+  }
+
+  #requireComment(id: number) {
+    return findOrThrow(this.#comments.get(id), 'couldnt_find_comment');
+  }
+
+  #requirePrivateMessage(id: number) {
+    return findOrThrow(
+      this.#privateMessages.get(id),
+      'couldnt_find_private_message'
+    );
+  }
+
+  #requirePerson(id: number) {
+    return findOrThrow(this.#persons.get(id), 'couldnt_find_person');
+  }
+
+  #requireCommunity(id: number) {
+    return findOrThrow(this.#communities.get(id), 'couldnt_find_community');
+  }
+
+  #personDetails(
+    person: Person,
+    form: { community_id?: number; page?: number; limit?: number } = {}
+  ) {
+    const isListed = ({
+      creator,
+      community
+    }: {
+      creator: Person;
+      community: Community;
+    }) =>
+      creator.id === person.id &&
+      (!form.community_id || community.id === form.community_id);
+
+    return {
+      person_view: fakePersonView(person),
+      comments: paginate(newestFirst(this.#comments).filter(isListed), form),
+      posts: paginate(newestFirst(this.#posts).filter(isListed), form),
+      moderates: [...this.#moderators]
+        .filter(([, moderatorIds]) => moderatorIds.includes(person.id))
+        .map(([communityId]) => ({
+          community: this.#requireCommunity(communityId),
+          moderator: person
+        }))
+    };
+  }
+
+  #communityModerators(communityId: number) {
+    const community = this.#requireCommunity(communityId);
+
+    return (this.#moderators.get(communityId) ?? []).map((personId) => ({
+      community,
+      moderator: this.#requirePerson(personId)
+    }));
+  }
+
+  #votes(votes: Map<number, number>, id: number): VoteView[] {
+    const score = votes.get(id);
+
+    return score
+      ? [
+          {
+            creator: this.botPerson,
+            creator_banned_from_community: false,
+            score
+          }
+        ]
+      : [];
+  }
+
+  #createClient() {
+    const client = new LemmyHttp(`https://${this.instance}`, {
+      fetchFunction: unsupportedFetch
+    });
+    const botPerson = this.botPerson;
+
+    const methods: Partial<LemmyHttp> = {
+      login: async ({ username_or_email }) => {
+        if (username_or_email.toLowerCase() !== botPerson.name.toLowerCase()) {
+          throw new Error('incorrect_login');
+        }
+
+        this.#isLoggedIn = true;
+
+        return {
+          jwt: FAKE_JWT,
+          registration_created: false,
+          verify_email_sent: false
+        };
+      },
+      validateAuth: async () => {
+        if (!this.#isLoggedIn) {
+          throw new Error('not_logged_in');
+        }
+
+        return { success: true };
+      },
+      getSite: async () =>
+        fakeGetSiteResponse({
+          instance: this.instance,
+          myPerson: this.#isLoggedIn ? botPerson : undefined
+        }),
+      saveUserSettings: async ({
+        bot_account,
+        display_name,
+        bio,
+        avatar,
+        banner,
+        matrix_user_id
+      }) => {
+        Object.assign(
+          botPerson,
+          Object.fromEntries(
+            Object.entries({
+              bot_account,
+              display_name,
+              bio,
+              avatar,
+              banner,
+              matrix_user_id
+            }).filter(([, value]) => value !== undefined)
+          )
+        );
+
+        return { success: true };
+      },
+      getPosts: async (form = {}) => ({
+        posts: paginate(
+          newestFirst(this.#posts).filter(
+            ({ post, community }) =>
+              !post.removed &&
+              !post.deleted &&
+              (!form.community_id || community.id === form.community_id)
+          ),
+          form
+        )
+      }),
+      getPost: async ({ id, comment_id } = {}) => {
+        const postView = this.#requirePost(
+          id ?? this.#requireComment(comment_id ?? 0).comment.post_id
+        );
+
+        return {
+          post_view: postView,
+          community_view: fakeCommunityView(postView.community),
+          moderators: [],
+          cross_posts: []
+        };
+      },
+      createPost: async ({ name, community_id, ...form }) => ({
+        post_view: this.addPost({
+          ...form,
+          name,
+          community: this.#requireCommunity(community_id),
+          creator: botPerson
+        })
+      }),
+      editPost: async ({ post_id, ...form }) => {
+        const postView = this.#requirePost(post_id);
+        Object.assign(postView.post, form, {
+          updated: new Date().toISOString()
+        });
+
+        return { post_view: postView };
+      },
+      likePost: async ({ post_id, score }) => {
+        const postView = this.#requirePost(post_id);
+        applyVote(postView.counts, this.#postVotes.get(post_id) ?? 0, score);
+        this.#postVotes.set(post_id, score);
+        postView.my_vote = score;
+
+        return { post_view: postView };
+      },
+      listPostLikes: async ({ post_id }) => ({
+        post_likes: this.#votes(this.#postVotes, post_id)
+      }),
+      removePost: async ({ post_id, removed }) => {
+        const postView = this.#requirePost(post_id);
+        postView.post.removed = removed;
+
+        return { post_view: postView };
+      },
+      deletePost: async ({ post_id, deleted }) => {
+        const postView = this.#requirePost(post_id);
+        postView.post.deleted = deleted;
+
+        return { post_view: postView };
+      },
+      savePost: async ({ post_id, save }) => {
+        const postView = this.#requirePost(post_id);
+        postView.saved = save;
+
+        return { post_view: postView };
+      },
+      lockPost: async ({ post_id, locked }) => {
+        const postView = this.#requirePost(post_id);
+        postView.post.locked = locked;
+
+        return { post_view: postView };
+      },
+      featurePost: async ({ post_id, featured, feature_type }) => {
+        const postView = this.#requirePost(post_id);
+
+        if (feature_type === 'Community') {
+          postView.post.featured_community = featured;
+        } else {
+          postView.post.featured_local = featured;
+        }
+
+        return { post_view: postView };
+      },
+      hidePost: async ({ post_ids, hide }) => {
+        for (const id of post_ids) {
+          this.#requirePost(id).hidden = hide;
+        }
+
+        return { success: true };
+      },
+      createPostReport: async ({ post_id, reason }) => ({
+        post_report_view: this.reportPost({
+          post: post_id,
+          reason,
+          creator: botPerson
+        })
+      }),
+      listPostReports: async (form = {}) => ({
+        post_reports: paginate(
+          newestFirst(this.#postReports).filter(
+            ({ post_report: { resolved } }) =>
+              !form.unresolved_only || !resolved
+          ),
+          form
+        )
+      }),
+      resolvePostReport: async ({ report_id, resolved }) => {
+        const reportView = findOrThrow(
+          this.#postReports.get(report_id),
+          'couldnt_resolve_report'
+        );
+        reportView.post_report.resolved = resolved;
+        reportView.post_report.resolver_id = botPerson.id;
+        reportView.resolver = botPerson;
+
+        return { post_report_view: reportView };
+      },
+      getComments: async (form = {}) => {
+        const comments = newestFirst(this.#comments);
+
+        return {
+          comments: paginate(
+            (form.sort === 'Old' ? comments.reverse() : comments).filter(
+              ({ comment, community }) =>
+                !comment.removed &&
+                !comment.deleted &&
+                (!form.post_id || comment.post_id === form.post_id) &&
+                (!form.parent_id ||
+                  comment.path.split('.').includes(`${form.parent_id}`)) &&
+                (!form.community_id || community.id === form.community_id)
+            ),
+            form
+          )
+        };
+      },
+      getComment: async ({ id }) => ({
+        comment_view: this.#requireComment(id),
+        recipient_ids: []
+      }),
+      createComment: async ({ post_id, parent_id, content, language_id }) => ({
+        comment_view: this.addComment({
+          post: post_id,
+          parent: parent_id,
+          content,
+          creator: botPerson,
+          ...(language_id !== undefined ? { language_id } : {})
+        }),
+        recipient_ids: []
+      }),
+      editComment: async ({ comment_id, content, language_id }) => {
+        const commentView = this.#requireComment(comment_id);
+        Object.assign(commentView.comment, {
+          ...(content !== undefined ? { content } : {}),
+          ...(language_id !== undefined ? { language_id } : {}),
+          updated: new Date().toISOString()
+        });
+
+        return { comment_view: commentView, recipient_ids: [] };
+      },
+      likeComment: async ({ comment_id, score }) => {
+        const commentView = this.#requireComment(comment_id);
+        applyVote(
+          commentView.counts,
+          this.#commentVotes.get(comment_id) ?? 0,
+          score
+        );
+        this.#commentVotes.set(comment_id, score);
+        commentView.my_vote = score;
+
+        return { comment_view: commentView, recipient_ids: [] };
+      },
+      listCommentLikes: async ({ comment_id }) => ({
+        comment_likes: this.#votes(this.#commentVotes, comment_id)
+      }),
+      removeComment: async ({ comment_id, removed }) => {
+        const commentView = this.#requireComment(comment_id);
+        commentView.comment.removed = removed;
+
+        return { comment_view: commentView, recipient_ids: [] };
+      },
+      deleteComment: async ({ comment_id, deleted }) => {
+        const commentView = this.#requireComment(comment_id);
+        commentView.comment.deleted = deleted;
+
+        return { comment_view: commentView, recipient_ids: [] };
+      },
+      saveComment: async ({ comment_id, save }) => {
+        const commentView = this.#requireComment(comment_id);
+        commentView.saved = save;
+
+        return { comment_view: commentView, recipient_ids: [] };
+      },
+      distinguishComment: async ({ comment_id, distinguished }) => {
+        const commentView = this.#requireComment(comment_id);
+        commentView.comment.distinguished = distinguished;
+
+        return { comment_view: commentView, recipient_ids: [] };
+      },
+      createCommentReport: async ({ comment_id, reason }) => ({
+        comment_report_view: this.reportComment({
+          comment: comment_id,
+          reason,
+          creator: botPerson
+        })
+      }),
+      listCommentReports: async (form = {}) => ({
+        comment_reports: paginate(
+          newestFirst(this.#commentReports).filter(
+            ({ comment_report: { resolved } }) =>
+              !form.unresolved_only || !resolved
+          ),
+          form
+        )
+      }),
+      resolveCommentReport: async ({ report_id, resolved }) => {
+        const reportView = findOrThrow(
+          this.#commentReports.get(report_id),
+          'couldnt_resolve_report'
+        );
+        reportView.comment_report.resolved = resolved;
+        reportView.comment_report.resolver_id = botPerson.id;
+        reportView.resolver = botPerson;
+
+        return { comment_report_view: reportView };
+      },
+      getPrivateMessages: async (form = {}) => ({
+        private_messages: paginate(
+          newestFirst(this.#privateMessages).filter(
+            ({ private_message: { creator_id, recipient_id, read } }) =>
+              form.unread_only
+                ? recipient_id === botPerson.id && !read
+                : recipient_id === botPerson.id || creator_id === botPerson.id
+          ),
+          form
+        )
+      }),
+      createPrivateMessage: async ({ content, recipient_id }) => ({
+        private_message_view: this.sendPrivateMessage({
+          content,
+          creator: botPerson,
+          recipient: this.#requirePerson(recipient_id)
+        })
+      }),
+      markPrivateMessageAsRead: async ({ private_message_id, read }) => {
+        const messageView = this.#requirePrivateMessage(private_message_id);
+        messageView.private_message.read = read;
+
+        return { private_message_view: messageView };
+      },
+      editPrivateMessage: async ({ private_message_id, content }) => {
+        const messageView = this.#requirePrivateMessage(private_message_id);
+        Object.assign(messageView.private_message, {
+          content,
+          updated: new Date().toISOString()
+        });
+
+        return { private_message_view: messageView };
+      },
+      deletePrivateMessage: async ({ private_message_id, deleted }) => {
+        const messageView = this.#requirePrivateMessage(private_message_id);
+        messageView.private_message.deleted = deleted;
+
+        return { private_message_view: messageView };
+      },
+      createPrivateMessageReport: async ({ private_message_id, reason }) => ({
+        private_message_report_view: this.reportPrivateMessage({
+          privateMessage: private_message_id,
+          reason,
+          creator: botPerson
+        })
+      }),
+      listPrivateMessageReports: async (form = {}) => ({
+        private_message_reports: paginate(
+          newestFirst(this.#privateMessageReports).filter(
+            ({ private_message_report: { resolved } }) =>
+              !form.unresolved_only || !resolved
+          ),
+          form
+        )
+      }),
+      resolvePrivateMessageReport: async ({ report_id, resolved }) => {
+        const reportView = findOrThrow(
+          this.#privateMessageReports.get(report_id),
+          'couldnt_resolve_report'
+        );
+        reportView.private_message_report.resolved = resolved;
+        reportView.private_message_report.resolver_id = botPerson.id;
+        reportView.resolver = botPerson;
+
+        return { private_message_report_view: reportView };
+      },
+      getPersonMentions: async (form = {}) => ({
+        mentions: paginate(
+          newestFirst(this.#mentions).filter(
+            ({ person_mention: { read } }) => !form.unread_only || !read
+          ),
+          form
+        )
+      }),
+      markPersonMentionAsRead: async ({ person_mention_id, read }) => {
+        const mentionView = findOrThrow(
+          this.#mentions.get(person_mention_id),
+          'couldnt_update_comment'
+        );
+        mentionView.person_mention.read = read;
+
+        return { person_mention_view: mentionView };
+      },
+      getReplies: async (form = {}) => ({
+        replies: paginate(
+          newestFirst(this.#replies).filter(
+            ({ comment_reply: { read } }) => !form.unread_only || !read
+          ),
+          form
+        )
+      }),
+      markCommentReplyAsRead: async ({ comment_reply_id, read }) => {
+        const replyView = findOrThrow(
+          this.#replies.get(comment_reply_id),
+          'couldnt_update_comment'
+        );
+        replyView.comment_reply.read = read;
+
+        return { comment_reply_view: replyView };
+      },
+      markAllAsRead: async () => {
+        for (const { comment_reply } of this.#replies.values()) {
+          comment_reply.read = true;
+        }
+
+        for (const { person_mention } of this.#mentions.values()) {
+          person_mention.read = true;
+        }
+
+        for (const { private_message } of this.#privateMessages.values()) {
+          if (private_message.recipient_id === botPerson.id) {
+            private_message.read = true;
+          }
+        }
+
+        return { replies: [] };
+      },
+      getUnreadCount: async () => ({
+        replies: [...this.#replies.values()].filter(
+          ({ comment_reply: { read } }) => !read
+        ).length,
+        mentions: [...this.#mentions.values()].filter(
+          ({ person_mention: { read } }) => !read
+        ).length,
+        private_messages: [...this.#privateMessages.values()].filter(
+          ({ private_message: { recipient_id, read } }) =>
+            recipient_id === botPerson.id && !read
+        ).length
+      }),
+      listRegistrationApplications: async (form = {}) => ({
+        registration_applications: paginate(
+          newestFirst(this.#registrationApplications).filter(
+            ({ registration_application: { admin_id } }) =>
+              !form.unread_only || admin_id === undefined
+          ),
+          form
+        )
+      }),
+      approveRegistrationApplication: async ({ id, approve, deny_reason }) => {
+        const applicationView = findOrThrow(
+          this.#registrationApplications.get(id),
+          'couldnt_find_registration_application'
+        );
+        applicationView.registration_application.admin_id = botPerson.id;
+        applicationView.creator_local_user.accepted_application = approve;
+        applicationView.admin = botPerson;
+
+        if (!approve) {
+          applicationView.registration_application.deny_reason = deny_reason;
+        }
+
+        return { registration_application: applicationView };
+      },
+      getCommunity: async ({ id, name } = {}) => {
+        const community = findOrThrow(
+          id !== undefined
+            ? this.#communities.get(id)
+            : this.#findByFullName(this.#communities, 'c', name ?? ''),
+          'couldnt_find_community'
+        );
+
+        return {
+          community_view: fakeCommunityView(community),
+          moderators: this.#communityModerators(community.id),
+          discussion_languages: []
+        };
+      },
+      createCommunity: async ({ name, discussion_languages = [], ...form }) => {
+        const community = this.addCommunity(name, form);
+        this.addModerator({ community, person: botPerson });
+
+        return {
+          community_view: fakeCommunityView(community),
+          discussion_languages
+        };
+      },
+      editCommunity: async ({
+        community_id,
+        discussion_languages = [],
+        ...form
+      }) => {
+        const community = this.#requireCommunity(community_id);
+        Object.assign(community, form, { updated: new Date().toISOString() });
+
+        return {
+          community_view: fakeCommunityView(community),
+          discussion_languages
+        };
+      },
+      addModToCommunity: async ({ community_id, person_id, added }) => {
+        const person = this.#requirePerson(person_id);
+
+        if (added) {
+          this.addModerator({
+            community: this.#requireCommunity(community_id),
+            person
+          });
+        } else {
+          this.#moderators.set(
+            community_id,
+            (this.#moderators.get(community_id) ?? []).filter(
+              (id) => id !== person.id
+            )
+          );
+        }
+
+        return { moderators: this.#communityModerators(community_id) };
+      },
+      transferCommunity: async ({ community_id, person_id }) => {
+        const community = this.#requireCommunity(community_id);
+        const moderatorIds = this.#moderators.get(community_id) ?? [];
+
+        if (!moderatorIds.includes(person_id)) {
+          throw new Error('not_a_moderator');
+        }
+
+        this.#moderators.set(community_id, [
+          person_id,
+          ...moderatorIds.filter((id) => id !== person_id)
+        ]);
+
+        return {
+          community_view: fakeCommunityView(community),
+          moderators: this.#communityModerators(community_id),
+          discussion_languages: []
+        };
+      },
+      hideCommunity: async ({ community_id, hidden }) => {
+        this.#requireCommunity(community_id).hidden = hidden;
+
+        return { success: true };
+      },
+      listCommunities: async (form = {}) => ({
+        communities: paginate(
+          newestFirst(this.#communities)
+            .filter(({ removed, deleted }) => !removed && !deleted)
+            .map((community) => fakeCommunityView(community)),
+          form
+        )
+      }),
+      search: async ({ q, type_ = 'All', community_id, ...form }) => {
+        const matches = (text?: string) =>
+          !!text?.toLowerCase().includes(q.toLowerCase());
+        const includes = (type: SearchType) =>
+          type_ === 'All' || type_ === type;
+
+        return {
+          type_,
+          posts: includes('Posts')
+            ? paginate(
+                newestFirst(this.#posts).filter(
+                  ({ post, community }) =>
+                    !post.removed &&
+                    !post.deleted &&
+                    (matches(post.name) || matches(post.body)) &&
+                    (!community_id || community.id === community_id)
+                ),
+                form
+              )
+            : [],
+          comments: includes('Comments')
+            ? paginate(
+                newestFirst(this.#comments).filter(
+                  ({ comment, community }) =>
+                    !comment.removed &&
+                    !comment.deleted &&
+                    matches(comment.content) &&
+                    (!community_id || community.id === community_id)
+                ),
+                form
+              )
+            : [],
+          communities: includes('Communities')
+            ? paginate(
+                newestFirst(this.#communities)
+                  .filter(
+                    ({ name, title, removed, deleted }) =>
+                      !removed && !deleted && (matches(name) || matches(title))
+                  )
+                  .map((community) => fakeCommunityView(community)),
+                form
+              )
+            : [],
+          users: includes('Users')
+            ? paginate(
+                newestFirst(this.#persons)
+                  .filter(
+                    ({ name, display_name }) =>
+                      matches(name) || matches(display_name)
+                  )
+                  .map((person) => fakePersonView(person)),
+                form
+              )
+            : []
+        };
+      },
+      followCommunity: async ({ community_id, follow }) => {
+        const communityView = fakeCommunityView(
+          this.#requireCommunity(community_id)
+        );
+        communityView.subscribed = follow ? 'Subscribed' : 'NotSubscribed';
+
+        return { community_view: communityView, discussion_languages: [] };
+      },
+      banFromCommunity: async ({ person_id, ban }) => ({
+        person_view: fakePersonView(this.#requirePerson(person_id)),
+        banned: ban
+      }),
+      banPerson: async ({ person_id, ban }) => {
+        const person = this.#requirePerson(person_id);
+        person.banned = ban;
+
+        return { person_view: fakePersonView(person), banned: ban };
+      },
+      blockPerson: async ({ person_id, block }) => ({
+        person_view: fakePersonView(this.#requirePerson(person_id)),
+        blocked: block
+      }),
+      blockCommunity: async ({ community_id, block }) => {
+        const communityView = fakeCommunityView(
+          this.#requireCommunity(community_id)
+        );
+        communityView.blocked = block;
+
+        return { community_view: communityView, blocked: block };
+      },
+      blockInstance: async ({ block }) => ({ blocked: block }),
+      getPersonDetails: async ({ person_id, username, ...form } = {}) =>
+        this.#personDetails(
+          findOrThrow(
+            person_id !== undefined
+              ? this.#persons.get(person_id)
+              : this.#findByFullName(this.#persons, 'u', username ?? ''),
+            'couldnt_find_person'
+          ),
+          form
+        ),
+      resolveObject: async ({ q }) => {
+        const post = [...this.#posts.values()].find(
+          ({ post: { ap_id } }) => ap_id === q
+        );
+        const comment = [...this.#comments.values()].find(
+          ({ comment: { ap_id } }) => ap_id === q
+        );
+        const person = [...this.#persons.values()].find(
+          ({ actor_id }) => actor_id === q
+        );
+        const community = [...this.#communities.values()].find(
+          ({ actor_id }) => actor_id === q
+        );
+
+        if (!post && !comment && !person && !community) {
+          throw new Error('couldnt_find_object');
+        }
+
+        return {
+          ...(post ? { post } : {}),
+          ...(comment ? { comment } : {}),
+          ...(person ? { person: fakePersonView(person) } : {}),
+          ...(community ? { community: fakeCommunityView(community) } : {})
+        };
+      },
+      getModlog: async (form = {}) =>
+        Object.fromEntries(
+          Object.entries(this.#modlog).map(([type, entries]) => [
+            type,
+            paginate([...entries].reverse(), form)
+          ])
+        ) as unknown as GetModlogResponse,
+      uploadImage: async () => {
+        const name = `fake-${this.#id()}`;
+
+        return {
+          msg: 'ok',
+          url: `https://${this.instance}/pictrs/image/${name}`,
+          delete_url: `https://${this.instance}/pictrs/image/delete/${name}`
+        };
+      },
+      listMedia: async () => ({ images: [] }),
+      listAllMedia: async () => ({ images: [] })
+    };
+
+    return Object.assign(client, methods);
+  }
+}
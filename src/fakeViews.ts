@@ -0,0 +1,525 @@
+import {
+  Comment,
+  CommentAggregates,
+  CommentReplyView,
+  CommentReportView,
+  CommentView,
+  Community,
+  CommunityView,
+  GetSiteResponse,
+  LocalUser,
+  Person,
+  PersonMentionView,
+  PersonView,
+  Post,
+  PostAggregates,
+  PostReportView,
+  PostView,
+  PrivateMessage,
+  PrivateMessageReportView,
+  PrivateMessageView,
+  RegistrationApplicationView
+} from 'lemmy-js-client';
+
+/**
+ * Builders for Lemmy objects with every required field filled in.
+ * Used to synthesize responses when the real ones aren't available, e.g. in dry runs.
+ */
+
+const now = () => new Date().toISOString();
+
+export const fakePerson = (overrides: Partial<Person> = {}): Person => ({
+  id: 0,
+  name: 'unknown',
+  banned: false,
+  published: now(),
+  actor_id: '',
+  local: true,
+  deleted: false,
+  bot_account: false,
+  instance_id: 0,
+  ...overrides
+});
+
+export const fakeCommunity = (
+  overrides: Partial<Community> = {}
+): Community => ({
+  id: 0,
+  name: 'unknown',
+  title: 'unknown',
+  removed: false,
+  published: now(),
+  deleted: false,
+  nsfw: false,
+  actor_id: '',
+  local: true,
+  hidden: false,
+  posting_restricted_to_mods: false,
+  instance_id: 0,
+  visibility: 'Public',
+  ...overrides
+});
+
+export const fakePost = (overrides: Partial<Post> = {}): Post => ({
+  id: 0,
+  name: '',
+  creator_id: 0,
+  community_id: 0,
+  removed: false,
+  locked: false,
+  published: now(),
+  deleted: false,
+  nsfw: false,
+  ap_id: '',
+  local: true,
+  language_id: 0,
+  featured_community: false,
+  featured_local: false,
+  ...overrides
+});
+
+export const fakeComment = (overrides: Partial<Comment> = {}): Comment => {
+  const id = overrides.id ?? 0;
+
+  return {
+    id,
+    creator_id: 0,
+    post_id: 0,
+    content: '',
+    removed: false,
+    published: now(),
+    deleted: false,
+    ap_id: '',
+    local: true,
+    path: `0.${id}`,
+    distinguished: false,
+    language_id: 0,
+    ...overrides
+  };
+};
+
+export const fakePrivateMessage = (
+  overrides: Partial<PrivateMessage> = {}
+): PrivateMessage => ({
+  id: 0,
+  creator_id: 0,
+  recipient_id: 0,
+  content: '',
+  deleted: false,
+  read: false,
+  published: now(),
+  ap_id: '',
+  local: true,
+  ...overrides
+});
+
+const fakePostAggregates = (postId: number): PostAggregates => ({
+  post_id: postId,
+  comments: 0,
+  score: 0,
+  upvotes: 0,
+  downvotes: 0,
+  published: now(),
+  newest_comment_time: now()
+});
+
+const fakeCommentAggregates = (commentId: number): CommentAggregates => ({
+  comment_id: commentId,
+  score: 0,
+  upvotes: 0,
+  downvotes: 0,
+  published: now(),
+  child_count: 0
+});
+
+export const fakePostView = ({
+  post = fakePost(),
+  creator = fakePerson({ id: post.creator_id }),
+  community = fakeCommunity({ id: post.community_id }),
+  ...overrides
+}: Partial<PostView> = {}): PostView => ({
+  post,
+  creator,
+  community,
+  creator_banned_from_community: false,
+  banned_from_community: false,
+  creator_is_moderator: false,
+  creator_is_admin: false,
+  counts: fakePostAggregates(post.id),
+  subscribed: 'NotSubscribed',
+  saved: false,
+  read: false,
+  hidden: false,
+  creator_blocked: false,
+  unread_comments: 0,
+  ...overrides
+});
+
+export const fakeCommentView = ({
+  comment = fakeComment(),
+  creator = fakePerson({ id: comment.creator_id }),
+  post = fakePost({ id: comment.post_id }),
+  community = fakeCommunity({ id: post.community_id }),
+  ...overrides
+}: Partial<CommentView> = {}): CommentView => ({
+  comment,
+  creator,
+  post,
+  community,
+  counts: fakeCommentAggregates(comment.id),
+  creator_banned_from_community: false,
+  banned_from_community: false,
+  creator_is_moderator: false,
+  creator_is_admin: false,
+  subscribed: 'NotSubscribed',
+  saved: false,
+  creator_blocked: false,
+  ...overrides
+});
+
+export const fakePrivateMessageView = ({
+  private_message = fakePrivateMessage(),
+  creator = fakePerson({ id: private_message.creator_id }),
+  recipient = fakePerson({ id: private_message.recipient_id })
+}: Partial<PrivateMessageView> = {}): PrivateMessageView => ({
+  private_message,
+  creator,
+  recipient
+});
+
+export const fakePersonView = (person = fakePerson()): PersonView => ({
+  person,
+  counts: { person_id: person.id, post_count: 0, comment_count: 0 },
+  is_admin: false
+});
+
+export const fakeCommunityView = (
+  community = fakeCommunity()
+): CommunityView => ({
+  community,
+  subscribed: 'NotSubscribed',
+  blocked: false,
+  counts: {
+    community_id: community.id,
+    subscribers: 0,
+    posts: 0,
+    comments: 0,
+    published: now(),
+    users_active_day: 0,
+    users_active_week: 0,
+    users_active_month: 0,
+    users_active_half_year: 0,
+    subscribers_local: 0
+  },
+  banned_from_community: false
+});
+
+export const fakePostReportView = ({
+  id,
+  reason,
+  resolved = false,
+  post = fakePost(),
+  community,
+  creator = fakePerson()
+}: {
+  id: number;
+  reason: string;
+  resolved?: boolean;
+  post?: Post;
+  community?: Community;
+  creator?: Person;
+}): PostReportView => ({
+  ...fakePostView({ post, community }),
+  post_report: {
+    id,
+    creator_id: creator.id,
+    post_id: post.id,
+    original_post_name: post.name,
+    reason,
+    resolved,
+    published: now()
+  },
+  creator,
+  post_creator: fakePerson({ id: post.creator_id })
+});
+
+export const fakeCommentReportView = ({
+  id,
+  reason,
+  resolved = false,
+  comment = fakeComment(),
+  post: commentPost,
+  community: commentCommunity,
+  creator = fakePerson()
+}: {
+  id: number;
+  reason: string;
+  resolved?: boolean;
+  comment?: Comment;
+  post?: Post;
+  community?: Community;
+  creator?: Person;
+}): CommentReportView => {
+  const { post, community, counts, subscribed } = fakeCommentView({
+    comment,
+    post: commentPost,
+    community: commentCommunity
+  });
+
+  return {
+    comment_report: {
+      id,
+      creator_id: creator.id,
+      comment_id: comment.id,
+      original_comment_text: comment.content,
+      reason,
+      resolved,
+      published: now()
+    },
+    comment,
+    post,
+    community,
+    creator,
+    comment_creator: fakePerson({ id: comment.creator_id }),
+    counts,
+    creator_banned_from_community: false,
+    creator_is_moderator: false,
+    creator_is_admin: false,
+    creator_blocked: false,
+    subscribed,
+    saved: false
+  };
+};
+
+export const fakePrivateMessageReportView = ({
+  id,
+  reason,
+  resolved = false,
+  private_message = fakePrivateMessage(),
+  creator = fakePerson()
+}: {
+  id: number;
+  reason: string;
+  resolved?: boolean;
+  private_message?: PrivateMessage;
+  creator?: Person;
+}): PrivateMessageReportView => ({
+  private_message_report: {
+    id,
+    creator_id: creator.id,
+    private_message_id: private_message.id,
+    original_pm_text: private_message.content,
+    reason,
+    resolved,
+    published: now()
+  },
+  private_message,
+  private_message_creator: fakePerson({ id: private_message.creator_id }),
+  creator
+});
+
+const fakeLocalUser = (overrides: Partial<LocalUser> = {}): LocalUser => ({
+  id: 0,
+  person_id: 0,
+  show_nsfw: false,
+  theme: 'browser',
+  default_sort_type: 'Active',
+  default_listing_type: 'Local',
+  interface_language: 'browser',
+  show_avatars: true,
+  send_notifications_to_email: false,
+  show_scores: true,
+  show_bot_accounts: true,
+  show_read_posts: true,
+  email_verified: false,
+  accepted_application: false,
+  open_links_in_new_tab: false,
+  blur_nsfw: true,
+  auto_expand: false,
+  infinite_scroll_enabled: false,
+  admin: false,
+  post_listing_mode: 'List',
+  totp_2fa_enabled: false,
+  enable_keyboard_navigation: false,
+  enable_animated_images: true,
+  collapse_bot_comments: false,
+  ...overrides
+});
+
+export const fakeRegistrationApplicationView = ({
+  id,
+  answer = '',
+  creator = fakePerson(),
+  ...overrides
+}: {
+  id: number;
+  answer?: string;
+  creator?: Person;
+  admin_id?: number;
+  deny_reason?: string;
+}): RegistrationApplicationView => ({
+  registration_application: {
+    id,
+    local_user_id: 0,
+    answer,
+    published: now(),
+    ...overrides
+  },
+  creator_local_user: fakeLocalUser({ person_id: creator.id }),
+  creator
+});
+
+export const fakePersonMentionView = ({
+  id,
+  read = false,
+  recipient = fakePerson(),
+  ...overrides
+}: {
+  id: number;
+  read?: boolean;
+  recipient?: Person;
+} & Partial<CommentView>): PersonMentionView => {
+  const commentView = fakeCommentView(overrides);
+
+  return {
+    ...commentView,
+    person_mention: {
+      id,
+      recipient_id: recipient.id,
+      comment_id: commentView.comment.id,
+      read,
+      published: now()
+    },
+    recipient
+  };
+};
+
+export const fakeCommentReplyView = ({
+  id,
+  read = false,
+  recipient = fakePerson(),
+  ...overrides
+}: {
+  id: number;
+  read?: boolean;
+  recipient?: Person;
+} & Partial<CommentView>): CommentReplyView => {
+  const commentView = fakeCommentView(overrides);
+
+  return {
+    ...commentView,
+    comment_reply: {
+      id,
+      recipient_id: recipient.id,
+      comment_id: commentView.comment.id,
+      read,
+      published: now()
+    },
+    recipient
+  };
+};
+
+export const fakeGetSiteResponse = ({
+  instance,
+  myPerson
+}: {
+  instance: string;
+  myPerson?: Person;
+}): GetSiteResponse => ({
+  site_view: {
+    site: {
+      id: 1,
+      name: instance,
+      published: now(),
+      actor_id: `https://${instance}/`,
+      last_refreshed_at: now(),
+      inbox_url: `https://${instance}/inbox`,
+      public_key: '',
+      instance_id: 0
+    },
+    local_site: {
+      id: 1,
+      site_id: 1,
+      site_setup: true,
+      enable_downvotes: true,
+      enable_nsfw: true,
+      community_creation_admin_only: false,
+      require_email_verification: false,
+      private_instance: false,
+      default_theme: 'browser',
+      default_post_listing_type: 'Local',
+      hide_modlog_mod_names: true,
+      application_email_admins: false,
+      actor_name_max_length: 20,
+      federation_enabled: true,
+      captcha_enabled: false,
+      captcha_difficulty: 'medium',
+      published: now(),
+      registration_mode: 'Open',
+      reports_email_admins: false,
+      federation_signed_fetch: false,
+      default_post_listing_mode: 'List',
+      default_sort_type: 'Active'
+    },
+    local_site_rate_limit: {
+      local_site_id: 1,
+      message: 180,
+      message_per_second: 60,
+      post: 6,
+      post_per_second: 600,
+      register: 10,
+      register_per_second: 3600,
+      image: 6,
+      image_per_second: 3600,
+      comment: 6,
+      comment_per_second: 600,
+      search: 60,
+      search_per_second: 600,
+      published: now(),
+      import_user_settings: 1,
+      import_user_settings_per_second: 86400
+    },
+    counts: {
+      site_id: 1,
+      users: 0,
+      posts: 0,
+      comments: 0,
+      communities: 0,
+      users_active_day: 0,
+      users_active_week: 0,
+      users_active_month: 0,
+      users_active_half_year: 0
+    }
+  },
+  admins: [],
+  version: '0.19.9',
+  ...(myPerson
+    ? {
+        my_user: {
+          local_user_view: {
+            local_user: fakeLocalUser({ person_id: myPerson.id }),
+            local_user_vote_display_mode: {
+              local_user_id: 0,
+              score: true,
+              upvotes: true,
+              downvotes: true,
+              upvote_percentage: false
+            },
+            person: myPerson,
+            counts: { person_id: myPerson.id, post_count: 0, comment_count: 0 }
+          },
+          follows: [],
+          moderates: [],
+          community_blocks: [],
+          instance_blocks: [],
+          person_blocks: [],
+          discussion_languages: []
+        }
+      }
+    : {}),
+  all_languages: [],
+  discussion_languages: [],
+  taglines: [],
+  custom_emojis: [],
+  blocked_urls: []
+});
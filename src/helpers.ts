@@ -1,7 +1,10 @@
-import { ListingType } from 'lemmy-js-client';
-import { StorageInfo } from './db';
+import { Comment, ListingType } from 'lemmy-js-client';
 import {
+  BotCredentials,
   BotFederationOptions,
+  BotInstanceFederationOptions,
+  BotOptions,
+  BotStorageInfo,
   BotHandlers,
   Vote,
   InternalHandlers
@@ -26,7 +29,77 @@ export const futureDaysToUnixTime = (days?: number) =>
       )
     : undefined;
 
-export const shouldProcess = ({ exists, reprocessTime }: StorageInfo) =>
+export const futureMinutesToDate = (minutes?: number) =>
+  minutes && minutes > 0 ? new Date(Date.now() + 1000 * 60 * minutes) : null;
+
+/**
+ * IDs of the comments a comment replies to, starting with the top level comment
+ */
+export const getAncestorIds = ({ path }: Pick<Comment, 'path'>) =>
+  path
+    .split('.')
+    .filter((id) => id !== '0')
+    .slice(0, -1)
+    .map(Number);
+
+/**
+ * Yields the items of each page in turn, fetching pages as they are needed
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<{ items: T[]; isLastPage: boolean }>
+) {
+  for (let page = 1; ; ++page) {
+    const { items, isLastPage } = await fetchPage(page);
+
+    yield* items;
+
+    if (isLastPage) {
+      return;
+    }
+  }
+}
+
+/**
+ * Yields the items of each iterable in turn, stopping once `maxItems` items have been yielded
+ */
+export async function* takeItems<T>(
+  iterables: AsyncIterable<T>[],
+  maxItems = Infinity
+) {
+  let count = 0;
+
+  if (maxItems <= 0) {
+    return;
+  }
+
+  for (const iterable of iterables) {
+    for await (const item of iterable) {
+      yield item;
+
+      if (++count >= maxItems) {
+        return;
+      }
+    }
+  }
+}
+
+export const formatError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const AUTH_ERRORS = [
+  'not_logged_in',
+  'incorrect_login',
+  'token_not_found',
+  'Unauthorized'
+];
+
+/**
+ * Whether an error means the account's session is no longer valid and it needs to log in again
+ */
+export const isAuthError = (error: unknown) =>
+  AUTH_ERRORS.includes(formatError(error));
+
+export const shouldProcess = ({ exists, reprocessTime }: BotStorageInfo) =>
   !exists || (reprocessTime && reprocessTime < new Date(Date.now()));
 
 export const parseHandlers = (handlers?: BotHandlers) =>
@@ -40,6 +113,69 @@ export const parseHandlers = (handlers?: BotHandlers) =>
       )
     : ({} as InternalHandlers);
 
+/**
+ * Turns the credentials option into a list of named accounts, with the bot's main account first
+ */
+export const parseCredentials = (
+  credentials?: BotOptions['credentials']
+): [string, BotCredentials][] => {
+  if (!credentials) {
+    return [];
+  } else if (
+    typeof credentials.username === 'string' &&
+    typeof credentials.password === 'string'
+  ) {
+    return [[credentials.username, credentials as BotCredentials]];
+  } else {
+    return Object.entries(credentials as Record<string, BotCredentials>);
+  }
+};
+
+/**
+ * Resolves the federation option for one of the bot's instances. The instance is always allowed,
+ * so it is added to allow lists that don't include it.
+ */
+export const parseFederationOptions = (
+  federation: BotOptions['federation'],
+  instance: string
+): BotFederationOptions => {
+  switch (federation) {
+    case undefined:
+    case 'local':
+      return { allowList: [instance] };
+    case 'all':
+      return { blockList: [] };
+    default:
+      if (
+        (federation.allowList?.length ?? 0) > 0 &&
+        (federation.blockList?.length ?? 0) > 0
+      ) {
+        throw 'Cannot have both block list and allow list defined for federation options';
+      } else if (
+        (!federation.allowList || federation.allowList.length === 0) &&
+        (!federation.blockList || federation.blockList.length === 0)
+      ) {
+        throw 'Neither the block list nor allow list has any instances. To fix this issue, make sure either allow list or block list (not both) has at least one instance.\n\nAlternatively, the you can set the federation property to one of the strings "local" or "all".';
+      } else if (federation.blockList?.includes(instance)) {
+        throw 'Cannot put bot instance in blocklist unless blocking specific communities';
+      } else if (
+        federation.allowList &&
+        !federation.allowList.some(
+          (i) =>
+            i === instance ||
+            (i as BotInstanceFederationOptions).instance === instance
+        )
+      ) {
+        return {
+          ...federation,
+          allowList: [...federation.allowList, instance]
+        };
+      } else {
+        return federation;
+      }
+  }
+};
+
 export const getListingType = (options: BotFederationOptions): ListingType => {
   if (
     options.allowList &&
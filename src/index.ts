@@ -1,17 +1,65 @@
 export {
+  BotActionQueueOptions,
   BotActions,
+  BotCommand,
+  BotCommandArgument,
+  BotCommandArgumentType,
+  BotCommandArguments,
+  BotCommands,
+  BotCommandSource,
+  BotCommentAncestors,
+  BotCommentNode,
+  BotCommentSnapshot,
   BotConnectionOptions,
+  BotContentFilter,
   BotCredentials,
+  BotDryRunAction,
+  BotErrorContext,
+  BotEvents,
+  BotFailedItem,
   BotFederationOptions,
+  BotHealth,
   BotTask,
+  BotTextMatcher,
   BotHandlerOptions,
   BotHandlers,
   BotInstanceFederationOptions,
   BotInstanceList,
+  BotListOptions,
+  BotListReportsForm,
+  BotLogContext,
+  BotLogger,
+  BotLogLevel,
+  BotModlogView,
+  BotMonitoringOptions,
+  BotNameFilter,
   BotOptions,
+  BotPostSnapshot,
+  BotRateLimit,
+  BotRange,
+  BotRateLimits,
+  BotRateLimitType,
+  BotRemovalSummary,
+  BotRemoveAllByPersonForm,
+  BotReport,
+  BotRetryPolicy,
+  BotSearchResult,
+  BotState,
+  BotStateStore,
+  BotStorage,
+  BotStorageInfo,
+  BotStorageTable,
   Vote
 } from './types';
 
+export { defineCommand } from './commandRouter';
+export { loadConfig } from './config';
+export { createSqliteStorage } from './db';
+export { createConsoleLogger, createJsonLogger } from './logger';
+export { createJsonFileStorage, createMemoryStorage } from './storage';
+export { default as FakeLemmy } from './fakeLemmy';
+export { createTestBot, TestBot, TestBotAction } from './testKit';
+
 export { default as default, default as LemmyBot } from './bot';
 
 export * from 'lemmy-js-client';
@@ -0,0 +1,127 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Writable } from 'stream';
+import { BotLogContext, BotLogger, BotLogLevel } from './types';
+
+const LOG_LEVELS: readonly BotLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const isEnabled = (level: BotLogLevel, minLevel: BotLogLevel) =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+
+const formatContext = (context?: BotLogContext) => {
+  const entries = Object.entries(context ?? {}).filter(
+    ([, value]) => value !== undefined
+  );
+
+  return entries.length > 0
+    ? ` (${entries.map(([key, value]) => `${key}=${value}`).join(', ')})`
+    : '';
+};
+
+const createLevelLogger = (
+  minLevel: BotLogLevel,
+  write: (level: BotLogLevel, message: string, context?: BotLogContext) => void
+) =>
+  Object.fromEntries(
+    LOG_LEVELS.map((level) => [
+      level,
+      (message: string, context?: BotLogContext) => {
+        if (isEnabled(level, minLevel)) {
+          write(level, message, context);
+        }
+      }
+    ])
+  ) as BotLogger;
+
+/**
+ * Logger that writes human readable lines to the console. Used if no logger is provided in the bot options.
+ */
+export const createConsoleLogger = (
+  minLevel: BotLogLevel = 'info'
+): BotLogger =>
+  createLevelLogger(minLevel, (level, message, context) => {
+    const line = `${message}${formatContext(context)}`;
+
+    switch (level) {
+      case 'error':
+        console.error(line);
+        break;
+      case 'warn':
+        console.warn(line);
+        break;
+      default:
+        console.log(line);
+    }
+  });
+
+/**
+ * Logger that writes one JSON object per line, for shipping logs to log aggregators.
+ */
+export const createJsonLogger = ({
+  level: minLevel = 'info',
+  stream = process.stdout
+}: {
+  level?: BotLogLevel;
+  stream?: Writable;
+} = {}): BotLogger =>
+  createLevelLogger(minLevel, (level, message, context) => {
+    stream.write(
+      `${JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...context
+      })}\n`
+    );
+  });
+
+const silentLogger = createLevelLogger('error', () => undefined);
+
+/**
+ * Logger that adds the context of whatever the bot is currently doing to each log line.
+ * Context set with {@link ContextLogger.run} follows async calls made inside it.
+ */
+export class ContextLogger implements BotLogger {
+  #logger: BotLogger;
+  #baseContext: BotLogContext;
+  #storage = new AsyncLocalStorage<BotLogContext>();
+
+  constructor(logger: BotLogger, baseContext: BotLogContext, enabled = true) {
+    this.#logger = enabled ? logger : silentLogger;
+    this.#baseContext = baseContext;
+    this.debug = this.debug.bind(this);
+    this.info = this.info.bind(this);
+    this.warn = this.warn.bind(this);
+    this.error = this.error.bind(this);
+  }
+
+  /**
+   * Context of whatever the bot is currently doing
+   */
+  get context() {
+    return this.#getContext();
+  }
+
+  run<T>(context: BotLogContext, fn: () => T) {
+    return this.#storage.run({ ...this.#storage.getStore(), ...context }, fn);
+  }
+
+  debug(message: string, context?: BotLogContext) {
+    this.#logger.debug(message, this.#getContext(context));
+  }
+
+  info(message: string, context?: BotLogContext) {
+    this.#logger.info(message, this.#getContext(context));
+  }
+
+  warn(message: string, context?: BotLogContext) {
+    this.#logger.warn(message, this.#getContext(context));
+  }
+
+  error(message: string, context?: BotLogContext) {
+    this.#logger.error(message, this.#getContext(context));
+  }
+
+  #getContext(context?: BotLogContext): BotLogContext {
+    return { ...this.#baseContext, ...this.#storage.getStore(), ...context };
+  }
+}
@@ -0,0 +1,220 @@
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+
+  return entries.length > 0
+    ? `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`
+    : '';
+};
+
+/**
+ * Values of a metric, one for each combination of labels
+ */
+class LabeledValues<TValue> {
+  #values = new Map<string, { labels: Labels; value: TValue }>();
+  #initial: () => TValue;
+
+  constructor(initial: () => TValue) {
+    this.#initial = initial;
+  }
+
+  get(labels: Labels) {
+    const key = formatLabels(labels);
+    let entry = this.#values.get(key);
+
+    if (!entry) {
+      entry = { labels, value: this.#initial() };
+      this.#values.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  entries() {
+    return [...this.#values.values()];
+  }
+}
+
+class Metric {
+  #name: string;
+  #help: string;
+  #type: 'counter' | 'gauge';
+  #values = new LabeledValues(() => 0);
+
+  constructor(name: string, help: string, type: 'counter' | 'gauge') {
+    this.#name = name;
+    this.#help = help;
+    this.#type = type;
+  }
+
+  inc(labels: Labels, amount = 1) {
+    this.#values.get(labels).value += amount;
+  }
+
+  set(labels: Labels, value: number) {
+    this.#values.get(labels).value = value;
+  }
+
+  render() {
+    return [
+      `# HELP ${this.#name} ${this.#help}`,
+      `# TYPE ${this.#name} ${this.#type}`,
+      ...this.#values
+        .entries()
+        .map(
+          ({ labels, value }) => `${this.#name}${formatLabels(labels)} ${value}`
+        )
+    ];
+  }
+}
+
+class Histogram {
+  #name: string;
+  #help: string;
+  #buckets: number[];
+  #values: LabeledValues<{
+    bucketCounts: number[];
+    sum: number;
+    count: number;
+  }>;
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.#name = name;
+    this.#help = help;
+    this.#buckets = buckets;
+    this.#values = new LabeledValues(() => ({
+      bucketCounts: buckets.map(() => 0),
+      sum: 0,
+      count: 0
+    }));
+  }
+
+  observe(labels: Labels, value: number) {
+    const entry = this.#values.get(labels).value;
+
+    this.#buckets.forEach((bucket, i) => {
+      if (value <= bucket) {
+        ++entry.bucketCounts[i];
+      }
+    });
+    entry.sum += value;
+    ++entry.count;
+  }
+
+  render() {
+    return [
+      `# HELP ${this.#name} ${this.#help}`,
+      `# TYPE ${this.#name} histogram`,
+      ...this.#values
+        .entries()
+        .flatMap(({ labels, value: { bucketCounts, sum, count } }) => [
+          ...this.#buckets.map(
+            (bucket, i) =>
+              `${this.#name}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${bucketCounts[i]}`
+          ),
+          `${this.#name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${this.#name}_sum${formatLabels(labels)} ${sum}`,
+          `${this.#name}_count${formatLabels(labels)} ${count}`
+        ])
+    ];
+  }
+}
+
+/**
+ * Counts what the bot does, rendered in the Prometheus text format
+ */
+class Metrics {
+  readonly polls = new Metric(
+    'lemmy_bot_polls_total',
+    'Polls by handler and result',
+    'counter'
+  );
+  readonly lastSuccessfulPoll = new Metric(
+    'lemmy_bot_last_successful_poll_timestamp_seconds',
+    'When each handler last polled successfully',
+    'gauge'
+  );
+  readonly itemsSeen = new Metric(
+    'lemmy_bot_items_seen_total',
+    'New items found while polling',
+    'counter'
+  );
+  readonly itemsHandled = new Metric(
+    'lemmy_bot_items_handled_total',
+    'Items handled without the handler throwing',
+    'counter'
+  );
+  readonly handlerFailures = new Metric(
+    'lemmy_bot_handler_failures_total',
+    'Times a handler threw',
+    'counter'
+  );
+  readonly handlerDuration = new Histogram(
+    'lemmy_bot_handler_duration_seconds',
+    'Time spent running handlers',
+    DURATION_BUCKETS
+  );
+  readonly actions = new Metric(
+    'lemmy_bot_actions_total',
+    'Bot actions that succeeded',
+    'counter'
+  );
+  readonly actionFailures = new Metric(
+    'lemmy_bot_action_failures_total',
+    'Bot actions that failed',
+    'counter'
+  );
+  readonly rateLimitWaits = new Metric(
+    'lemmy_bot_rate_limit_waits_total',
+    'Times actions had to wait for a rate limit',
+    'counter'
+  );
+  readonly rateLimitWaitSeconds = new Metric(
+    'lemmy_bot_rate_limit_wait_seconds_total',
+    'Time spent waiting for rate limits',
+    'counter'
+  );
+  readonly logins = new Metric(
+    'lemmy_bot_logins_total',
+    'Login attempts by account and result',
+    'counter'
+  );
+  readonly loggedIn = new Metric(
+    'lemmy_bot_logged_in',
+    'Whether each account is logged in',
+    'gauge'
+  );
+  readonly actionQueueDepth = new Metric(
+    'lemmy_bot_action_queue_depth',
+    'Actions waiting in the action queue',
+    'gauge'
+  );
+
+  render() {
+    return `${[
+      this.polls,
+      this.lastSuccessfulPoll,
+      this.itemsSeen,
+      this.itemsHandled,
+      this.handlerFailures,
+      this.handlerDuration,
+      this.actions,
+      this.actionFailures,
+      this.rateLimitWaits,
+      this.rateLimitWaitSeconds,
+      this.logins,
+      this.loggedIn,
+      this.actionQueueDepth
+    ]
+      .flatMap((metric) => metric.render())
+      .join('\n')}\n`;
+  }
+}
+
+export default Metrics;
@@ -0,0 +1,117 @@
+import { GetModlogResponse } from 'lemmy-js-client';
+import { BotModlogView } from './types';
+
+type ModlogType = BotModlogView['type'];
+
+type ModlogAction = { id: number; when_: string };
+
+/**
+ * Where each type of modlog entry is in the modlog response, and how to get the logged action from its view.
+ * The order is part of how IDs are generated for the `modlog` handler, so new types must be added at the end.
+ */
+const MODLOG_TYPES: {
+  [T in ModlogType]: {
+    key: keyof GetModlogResponse;
+    getAction: (
+      view: Extract<BotModlogView, { type: T }>['view']
+    ) => ModlogAction;
+  };
+} = {
+  ModRemovePost: {
+    key: 'removed_posts',
+    getAction: ({ mod_remove_post }) => mod_remove_post
+  },
+  ModLockPost: {
+    key: 'locked_posts',
+    getAction: ({ mod_lock_post }) => mod_lock_post
+  },
+  ModFeaturePost: {
+    key: 'featured_posts',
+    getAction: ({ mod_feature_post }) => mod_feature_post
+  },
+  ModRemoveComment: {
+    key: 'removed_comments',
+    getAction: ({ mod_remove_comment }) => mod_remove_comment
+  },
+  ModRemoveCommunity: {
+    key: 'removed_communities',
+    getAction: ({ mod_remove_community }) => mod_remove_community
+  },
+  ModBanFromCommunity: {
+    key: 'banned_from_community',
+    getAction: ({ mod_ban_from_community }) => mod_ban_from_community
+  },
+  ModAddCommunity: {
+    key: 'added_to_community',
+    getAction: ({ mod_add_community }) => mod_add_community
+  },
+  ModTransferCommunity: {
+    key: 'transferred_to_community',
+    getAction: ({ mod_transfer_community }) => mod_transfer_community
+  },
+  ModAdd: { key: 'added', getAction: ({ mod_add }) => mod_add },
+  ModBan: { key: 'banned', getAction: ({ mod_ban }) => mod_ban },
+  ModHideCommunity: {
+    key: 'hidden_communities',
+    getAction: ({ mod_hide_community }) => mod_hide_community
+  },
+  AdminPurgePerson: {
+    key: 'admin_purged_persons',
+    getAction: ({ admin_purge_person }) => admin_purge_person
+  },
+  AdminPurgeCommunity: {
+    key: 'admin_purged_communities',
+    getAction: ({ admin_purge_community }) => admin_purge_community
+  },
+  AdminPurgePost: {
+    key: 'admin_purged_posts',
+    getAction: ({ admin_purge_post }) => admin_purge_post
+  },
+  AdminPurgeComment: {
+    key: 'admin_purged_comments',
+    getAction: ({ admin_purge_comment }) => admin_purge_comment
+  }
+};
+
+const modlogTypes = Object.keys(MODLOG_TYPES) as ModlogType[];
+
+export const getModlogAction = ({ type, view }: BotModlogView) =>
+  (MODLOG_TYPES[type].getAction as (view: unknown) => ModlogAction)(view);
+
+/**
+ * Each type of modlog entry has its own IDs, so the type is folded into the ID
+ * to keep entries of different types from colliding in storage
+ */
+export const getModlogId = (modlogView: BotModlogView) =>
+  getModlogAction(modlogView).id * modlogTypes.length +
+  modlogTypes.indexOf(modlogView.type);
+
+/**
+ * Every entry in a modlog response, newest first
+ */
+export const toModlogViews = (response: GetModlogResponse) =>
+  modlogTypes
+    .flatMap((type) =>
+      (response[MODLOG_TYPES[type].key] as BotModlogView['view'][]).map(
+        (view) => ({ type, view }) as BotModlogView
+      )
+    )
+    .sort(
+      (a, b) =>
+        new Date(getModlogAction(b).when_).valueOf() -
+        new Date(getModlogAction(a).when_).valueOf()
+    );
+
+/**
+ * Whether a ban entry is a ban or an unban, and when the ban expires
+ */
+export const getBanDetails = ({
+  banned,
+  expires
+}: {
+  banned: boolean;
+  expires?: string;
+}) => ({
+  isBan: banned,
+  expires: banned && expires ? new Date(expires) : null
+});
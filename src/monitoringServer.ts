@@ -0,0 +1,68 @@
+import { createServer, Server } from 'http';
+import { BotHealth, BotLogger, BotMonitoringOptions } from './types';
+
+const DEFAULT_HOST = '0.0.0.0';
+
+/**
+ * Serves the bot's health at `/healthz` and its metrics at `/metrics`
+ */
+export const startMonitoringServer = async (
+  { port, host = DEFAULT_HOST }: BotMonitoringOptions,
+  {
+    getHealth,
+    getMetrics
+  }: { getHealth: () => BotHealth; getMetrics: () => string },
+  logger: BotLogger
+) => {
+  const server = createServer((req, res) => {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+
+      return;
+    }
+
+    switch (req.url?.split('?')[0]) {
+      case '/healthz': {
+        const health = getHealth();
+        res
+          .writeHead(health.healthy ? 200 : 503, {
+            'Content-Type': 'application/json'
+          })
+          .end(JSON.stringify(health));
+        break;
+      }
+      case '/metrics':
+        res
+          .writeHead(200, {
+            'Content-Type': 'text/plain; version=0.0.4; charset=utf-8'
+          })
+          .end(getMetrics());
+        break;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  server.on('error', (err) =>
+    logger.error(`Monitoring server error: ${err.message}`)
+  );
+  logger.info(`Serving health and metrics on ${host}:${port}`);
+
+  return server;
+};
+
+export const closeMonitoringServer = (server: Server) =>
+  new Promise<void>((resolve, reject) => {
+    server.close((err) => (err ? reject(err) : resolve()));
+    // Added in Node 18.2. Idle keep-alive connections delay closing on older versions.
+    if (typeof server.closeAllConnections === 'function') {
+      server.closeAllConnections();
+    }
+  });
@@ -0,0 +1,63 @@
+import { futureMinutesToDate } from './helpers';
+import { BotState, BotStateStore, BotStorage } from './types';
+
+const GLOBAL_SCOPE = 'global';
+const SESSION_SCOPE = 'session';
+
+const createStateStore = (
+  storage: BotStorage,
+  scope: string
+): BotStateStore => ({
+  get: async <T>(key: string) => {
+    const value = await storage.getState(scope, key);
+
+    return value === undefined ? undefined : (JSON.parse(value) as T);
+  },
+  set: (key, value, { minutesUntilExpiry } = {}) =>
+    storage.setState(
+      scope,
+      key,
+      JSON.stringify(value),
+      futureMinutesToDate(minutesUntilExpiry)
+    ),
+  delete: (key) => storage.deleteState(scope, key)
+});
+
+/**
+ * State for items from an instance. IDs are only unique within an instance,
+ * so person, community, and post scopes include the instance.
+ */
+export const createBotState = (
+  storage: BotStorage,
+  instance: string
+): BotState => ({
+  ...createStateStore(storage, GLOBAL_SCOPE),
+  person: (personId) =>
+    createStateStore(storage, `person:${personId}@${instance}`),
+  community: (communityId) =>
+    createStateStore(storage, `community:${communityId}@${instance}`),
+  post: (postId) => createStateStore(storage, `post:${postId}@${instance}`)
+});
+
+/**
+ * JWTs of the bot's accounts on an instance, keyed by username, so sessions survive restarts.
+ * Kept out of reach of {@link BotState}.
+ */
+export const createSessionStore = (storage: BotStorage, instance: string) =>
+  createStateStore(storage, `${SESSION_SCOPE}@${instance}`);
+
+/**
+ * What posts or comments on an instance looked like when the bot last saw them, keyed by ID,
+ * so edits can be detected. Kept out of reach of {@link BotState}.
+ */
+export const createSnapshotStore = (
+  storage: BotStorage,
+  instance: string,
+  type: 'post' | 'comment'
+) => createStateStore(storage, `${type}Snapshot@${instance}`);
+
+/**
+ * Posts watched for the `threadWatch` handler on an instance. Kept out of reach of {@link BotState}.
+ */
+export const createThreadWatchStore = (storage: BotStorage, instance: string) =>
+  createStateStore(storage, `threadWatch@${instance}`);
@@ -0,0 +1,333 @@
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { createSqliteStorage, isSqliteAvailable } from './db';
+import { BotFailedItem, BotStorage, BotStorageTable } from './types';
+
+/**
+ * Reprocess times keyed by instance and item ID
+ */
+type Rows = Map<string, number | null>;
+type Tables = Map<BotStorageTable, Rows>;
+type FailedItems = Map<string, BotFailedItem>;
+type StateEntry = {
+  scope: string;
+  key: string;
+  value: string;
+  expiresAt: number | null;
+};
+type StateEntries = Map<string, StateEntry>;
+type StorageData = {
+  tables: Tables;
+  failedItems: FailedItems;
+  state: StateEntries;
+};
+
+/**
+ * Keys of the failed items and state in the JSON file. Every other key is a table.
+ */
+const FAILED_ITEMS_KEY = 'failedItems';
+const STATE_KEY = 'state';
+
+/**
+ * How long the JSON file storage waits after a change before writing, so changes made close together are written at once
+ */
+const JSON_FILE_WRITE_DELAY_MS = 1000;
+
+const getRowKey = (instance: string, id: number) => `${instance}/${id}`;
+
+const getFailedItemKey = (
+  instance: string,
+  table: BotStorageTable,
+  id: number
+) => JSON.stringify([instance, table, id]);
+
+const getStateKey = (scope: string, key: string) =>
+  JSON.stringify([scope, key]);
+
+const isExpired = ({ expiresAt }: StateEntry, now = Date.now()) =>
+  expiresAt !== null && expiresAt <= now;
+
+const getRows = (tables: Tables, table: BotStorageTable) => {
+  let rows = tables.get(table);
+
+  if (!rows) {
+    rows = new Map();
+    tables.set(table, rows);
+  }
+
+  return rows;
+};
+
+const createDataStorage = (
+  { tables, failedItems, state }: StorageData,
+  onChange: () => Promise<void> = () => Promise.resolve()
+): BotStorage => ({
+  get: async (instance, table, id) => {
+    const rows = getRows(tables, table);
+    const rowKey = getRowKey(instance, id);
+    const reprocessTime = rows.get(rowKey);
+
+    return {
+      exists: rows.has(rowKey),
+      reprocessTime: reprocessTime ? new Date(reprocessTime) : null
+    };
+  },
+  upsert: async (instance, table, id, reprocessTime) => {
+    getRows(tables, table).set(
+      getRowKey(instance, id),
+      reprocessTime?.getTime() ?? null
+    );
+    await onChange();
+  },
+  prune: async (table, before) => {
+    const rows = getRows(tables, table);
+    let changed = false;
+
+    for (const [rowKey, reprocessTime] of rows) {
+      if (reprocessTime !== null && reprocessTime < before.getTime()) {
+        rows.delete(rowKey);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await onChange();
+    }
+  },
+  getFailedItems: async ({ instance, table, dueBefore } = {}) =>
+    [...failedItems.values()].filter(
+      (failedItem) =>
+        (!instance || failedItem.instance === instance) &&
+        (!table || failedItem.table === table) &&
+        (!dueBefore ||
+          (failedItem.nextAttemptTime !== null &&
+            failedItem.nextAttemptTime < dueBefore))
+    ),
+  upsertFailedItem: async (failedItem) => {
+    failedItems.set(
+      getFailedItemKey(failedItem.instance, failedItem.table, failedItem.id),
+      failedItem
+    );
+    await onChange();
+  },
+  deleteFailedItem: async (instance, table, id) => {
+    if (failedItems.delete(getFailedItemKey(instance, table, id))) {
+      await onChange();
+    }
+  },
+  getState: async (scope, key) => {
+    const entry = state.get(getStateKey(scope, key));
+
+    return entry && !isExpired(entry) ? entry.value : undefined;
+  },
+  setState: async (scope, key, value, expiresAt) => {
+    state.set(getStateKey(scope, key), {
+      scope,
+      key,
+      value,
+      expiresAt: expiresAt?.getTime() ?? null
+    });
+    await onChange();
+  },
+  deleteState: async (scope, key) => {
+    if (state.delete(getStateKey(scope, key))) {
+      await onChange();
+    }
+  },
+  pruneState: async (before) => {
+    let changed = false;
+
+    for (const [stateKey, entry] of state) {
+      if (isExpired(entry, before.getTime())) {
+        state.delete(stateKey);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await onChange();
+    }
+  }
+});
+
+/**
+ * Storage that keeps everything in memory. Nothing is persisted between runs of the bot.
+ */
+export const createMemoryStorage = (): BotStorage =>
+  createDataStorage({
+    tables: new Map(),
+    failedItems: new Map(),
+    state: new Map()
+  });
+
+/**
+ * Storage that persists to a JSON file. Useful on platforms where sqlite3 cannot be installed.
+ * Changes are written at most once a second and when the storage is closed.
+ *
+ * @param filePath - File to store data in. Will be created if it does not exist.
+ */
+export const createJsonFileStorage = (filePath: string): BotStorage => {
+  const tables: Tables = new Map();
+  const failedItems: FailedItems = new Map();
+  const state: StateEntries = new Map();
+  let writeQueue = Promise.resolve();
+
+  const write = async () => {
+    const data = {
+      ...Object.fromEntries(
+        [...tables].map(([table, rows]) => [table, Object.fromEntries(rows)])
+      ),
+      [FAILED_ITEMS_KEY]: [...failedItems.values()].map((failedItem) => ({
+        ...failedItem,
+        nextAttemptTime: failedItem.nextAttemptTime?.getTime() ?? null
+      })),
+      [STATE_KEY]: [...state.values()]
+    };
+    const tempPath = `${filePath}.tmp`;
+
+    await writeFile(tempPath, JSON.stringify(data));
+    await rename(tempPath, filePath);
+  };
+
+  let hasUnwrittenChanges = false;
+  let writeTimeout: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    clearTimeout(writeTimeout);
+    writeTimeout = undefined;
+
+    if (!hasUnwrittenChanges) {
+      return writeQueue;
+    }
+
+    hasUnwrittenChanges = false;
+    const queued = writeQueue.then(write).catch((error) => {
+      // Try again on the next change or when the storage is closed
+      hasUnwrittenChanges = true;
+      throw error;
+    });
+    writeQueue = queued.catch(() => undefined);
+
+    return queued;
+  };
+
+  const persist = async () => {
+    hasUnwrittenChanges = true;
+    writeTimeout ??= setTimeout(
+      () => flush().catch(() => undefined),
+      JSON_FILE_WRITE_DELAY_MS
+    );
+  };
+
+  return {
+    ...createDataStorage({ tables, failedItems, state }, persist),
+    init: async (mainInstance) => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+
+      if (!existsSync(filePath)) {
+        return;
+      }
+
+      const {
+        [FAILED_ITEMS_KEY]: storedFailedItems = [],
+        [STATE_KEY]: storedState = [],
+        ...data
+      }: Record<string, Record<string, number | null>> & {
+        [FAILED_ITEMS_KEY]?: (Omit<
+          BotFailedItem,
+          'instance' | 'nextAttemptTime'
+        > & {
+          instance?: string;
+          nextAttemptTime: number | null;
+        })[];
+        [STATE_KEY]?: StateEntry[];
+      } = JSON.parse(await readFile(filePath, 'utf8'));
+
+      for (const entry of storedState) {
+        state.set(getStateKey(entry.scope, entry.key), entry);
+      }
+
+      for (const {
+        instance = mainInstance,
+        nextAttemptTime,
+        ...failedItem
+      } of storedFailedItems) {
+        failedItems.set(
+          getFailedItemKey(instance, failedItem.table, failedItem.id),
+          {
+            ...failedItem,
+            instance,
+            nextAttemptTime:
+              nextAttemptTime === null ? null : new Date(nextAttemptTime)
+          }
+        );
+      }
+
+      // Rows stored before rows were kept per instance are keyed by ID alone
+      for (const [table, rows] of Object.entries(data)) {
+        tables.set(
+          table as BotStorageTable,
+          new Map(
+            Object.entries(rows).map(([rowKey, time]) => [
+              rowKey.includes('/')
+                ? rowKey
+                : getRowKey(mainInstance, Number(rowKey)),
+              time
+            ])
+          )
+        );
+      }
+    },
+    close: flush
+  };
+};
+
+/**
+ * Storage used when none is provided in the bot options: SQLite if it is installed, in-memory storage otherwise.
+ */
+export const createDefaultStorage = (
+  dbPath: string | undefined,
+  warn: (output: string) => void
+): BotStorage => {
+  let storage: BotStorage | undefined;
+
+  const getStorage = () => {
+    if (!storage) {
+      throw new Error('Storage used before being initialized');
+    }
+
+    return storage;
+  };
+
+  return {
+    init: async (mainInstance) => {
+      if (await isSqliteAvailable()) {
+        storage = createSqliteStorage(dbPath);
+      } else {
+        warn(
+          'sqlite3 optional dependency is not available. Handled items will be kept in memory and forgotten when the bot restarts, which can cause your bot to respond to the same event more than once. Use the storage option to persist them another way.'
+        );
+        storage = createMemoryStorage();
+      }
+
+      await storage.init?.(mainInstance);
+    },
+    get: (instance, table, id) => getStorage().get(instance, table, id),
+    upsert: (instance, table, id, reprocessTime) =>
+      getStorage().upsert(instance, table, id, reprocessTime),
+    prune: (table, before) => getStorage().prune(table, before),
+    getFailedItems: (options) => getStorage().getFailedItems(options),
+    upsertFailedItem: (failedItem) => getStorage().upsertFailedItem(failedItem),
+    deleteFailedItem: (instance, table, id) =>
+      getStorage().deleteFailedItem(instance, table, id),
+    getState: (scope, key) => getStorage().getState(scope, key),
+    setState: (scope, key, value, expiresAt) =>
+      getStorage().setState(scope, key, value, expiresAt),
+    deleteState: (scope, key) => getStorage().deleteState(scope, key),
+    pruneState: (before) => getStorage().pruneState(before),
+    close: async () => {
+      await storage?.close?.();
+    }
+  };
+};
@@ -0,0 +1,196 @@
+import LemmyBot, { testHooks } from './bot';
+import FakeLemmy from './fakeLemmy';
+import { createMemoryStorage } from './storage';
+import { BotActions, BotOptions, BotRateLimit } from './types';
+
+export type TestBotAction = {
+  action: keyof BotActions;
+  args: unknown[];
+  /**
+   * Name of the account that performed the action
+   */
+  account?: string;
+};
+
+const UNLIMITED: BotRateLimit = { actions: 1, perSeconds: 0 };
+
+/**
+ * Whether every property in `expected` has the same value in `actual`, recursing into objects and arrays
+ */
+const matchesPartial = (actual: unknown, expected: unknown): boolean => {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, i) => matchesPartial(actual[i], value))
+    );
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    return (
+      actual !== null &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) =>
+        matchesPartial((actual as Record<string, unknown>)[key], value)
+      )
+    );
+  }
+
+  return Object.is(actual, expected);
+};
+
+const describeAction = (action: keyof BotActions, form?: object) =>
+  form === undefined ? action : `${action} with ${JSON.stringify(form)}`;
+
+/**
+ * Create a bot connected to a {@link FakeLemmy} instead of a real instance.
+ * The bot is logged in and ready, but doesn't poll until {@link TestBot.poll} or {@link TestBot.advance} is called,
+ * and doesn't run scheduled tasks until {@link TestBot.runTasks} is called.
+ */
+export const createTestBot = async ({
+  lemmy = new FakeLemmy(),
+  ...options
+}: Omit<BotOptions, 'instance'> & {
+  /**
+   * Fake instance to connect to. A new one is created if not provided.
+   */
+  lemmy?: FakeLemmy;
+} = {}) => {
+  const bot = new LemmyBot({
+    credentials: { username: lemmy.botPerson.name, password: 'password' },
+    storage: createMemoryStorage(),
+    enableLogs: false,
+    ...options,
+    instance: lemmy.instance,
+    actionQueue: {
+      rateLimits: {
+        message: UNLIMITED,
+        post: UNLIMITED,
+        comment: UNLIMITED,
+        image: UNLIMITED,
+        search: UNLIMITED
+      },
+      maxRetries: 0,
+      ...options.actionQueue
+    }
+  });
+
+  const hooks = bot[testHooks]();
+  hooks.useHttpClients(() => lemmy.client);
+  const actions: TestBotAction[] = [];
+  hooks.onAction((action, args, account) => {
+    actions.push({ action, args, account });
+  });
+  await hooks.start();
+
+  const pollers = hooks
+    .getPollers()
+    .map((poller) => ({ ...poller, elapsedSeconds: 0 }));
+
+  const findActions = (action: keyof BotActions, form?: object) =>
+    actions.filter(
+      (performed) =>
+        performed.action === action &&
+        (form === undefined || matchesPartial(performed.args[0], form))
+    );
+
+  return {
+    bot,
+    lemmy,
+    /**
+     * Actions of the bot's main account, for setting up or inspecting the fake instance as the bot
+     */
+    botActions: hooks.getBotActions(),
+    /**
+     * Every bot action performed so far, in order
+     */
+    get actions() {
+      return [...actions];
+    },
+    /**
+     * Run every handler's poll once, in the order the bot set them up
+     */
+    poll: async () => {
+      for (const { poll } of pollers) {
+        await poll();
+      }
+    },
+    /**
+     * Run the polls that would have happened if `seconds` had passed, in the order they would have happened.
+     * Each handler polls every `secondsBetweenPolls` seconds, starting from when the bot was created.
+     */
+    advance: async (seconds: number) => {
+      let remainingSeconds = seconds;
+
+      for (;;) {
+        const secondsUntilNextPoll = Math.min(
+          ...pollers.map(
+            ({ secondsBetweenPolls, elapsedSeconds }) =>
+              secondsBetweenPolls - elapsedSeconds
+          )
+        );
+
+        if (secondsUntilNextPoll > remainingSeconds) {
+          for (const poller of pollers) {
+            poller.elapsedSeconds += remainingSeconds;
+          }
+
+          return;
+        }
+
+        remainingSeconds -= secondsUntilNextPoll;
+
+        for (const poller of pollers) {
+          poller.elapsedSeconds += secondsUntilNextPoll;
+        }
+
+        for (const poller of pollers) {
+          if (poller.elapsedSeconds >= poller.secondsBetweenPolls) {
+            poller.elapsedSeconds = 0;
+            await poller.poll();
+          }
+        }
+      }
+    },
+    /**
+     * Run every scheduled task once, in the order they were scheduled, regardless of their cron expressions
+     */
+    runTasks: () => hooks.runTasks(),
+    /**
+     * Performed actions of a type, optionally only those whose form contains every property of `form`
+     */
+    findActions,
+    /**
+     * Throws if the action was not performed
+     *
+     * @returns the first matching action
+     */
+    expectAction: (action: keyof BotActions, form?: object) => {
+      const [found] = findActions(action, form);
+
+      if (!found) {
+        throw new Error(
+          `Expected bot to perform ${describeAction(action, form)}. Performed actions: ${actions.map((performed) => performed.action).join(', ') || 'none'}`
+        );
+      }
+
+      return found;
+    },
+    /**
+     * Throws if the action was performed
+     */
+    expectNoAction: (action: keyof BotActions, form?: object) => {
+      if (findActions(action, form).length > 0) {
+        throw new Error(
+          `Expected bot not to perform ${describeAction(action, form)}`
+        );
+      }
+    },
+    clearActions: () => {
+      actions.length = 0;
+    },
+    stop: () => bot.stop()
+  };
+};
+
+export type TestBot = Awaited<ReturnType<typeof createTestBot>>;
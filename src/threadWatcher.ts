@@ -0,0 +1,92 @@
+import { futureMinutesToDate } from './helpers';
+import { BotStateStore } from './types';
+
+const THREADS_KEY = 'threads';
+
+type WatchedThread = {
+  /**
+   * Only comments published after this are handled
+   */
+  since: Date;
+  expiresAt: Date | null;
+};
+
+type StoredThread = { since: string; expiresAt: string | null };
+
+/**
+ * Posts whose comments are polled for the `threadWatch` handler, kept in storage so watches survive restarts
+ */
+export default class ThreadWatcher {
+  #store: BotStateStore;
+  #threads = new Map<number, WatchedThread>();
+
+  constructor(store: BotStateStore) {
+    this.#store = store;
+  }
+
+  async load() {
+    const stored =
+      (await this.#store.get<Record<string, StoredThread>>(THREADS_KEY)) ?? {};
+
+    this.#threads = new Map(
+      Object.entries(stored).map(([postId, { since, expiresAt }]) => [
+        Number(postId),
+        {
+          since: new Date(since),
+          expiresAt: expiresAt === null ? null : new Date(expiresAt)
+        }
+      ])
+    );
+  }
+
+  /**
+   * Watching a post that is already watched keeps its start time and replaces its expiry
+   */
+  watch(postId: number, minutesUntilExpiry?: number) {
+    this.#threads.set(postId, {
+      since: this.#threads.get(postId)?.since ?? new Date(),
+      expiresAt: futureMinutesToDate(minutesUntilExpiry)
+    });
+
+    return this.#save();
+  }
+
+  unwatch(postId: number) {
+    return this.#threads.delete(postId) ? this.#save() : Promise.resolve();
+  }
+
+  /**
+   * Watched posts that haven't expired. Expired watches are removed.
+   */
+  async getWatchedThreads() {
+    const now = new Date();
+    const expired = [...this.#threads].filter(
+      ([, { expiresAt }]) => expiresAt !== null && expiresAt <= now
+    );
+
+    if (expired.length > 0) {
+      for (const [postId] of expired) {
+        this.#threads.delete(postId);
+      }
+
+      await this.#save();
+    }
+
+    return [...this.#threads].map(([postId, { since }]) => ({ postId, since }));
+  }
+
+  #save() {
+    return this.#store.set(
+      THREADS_KEY,
+      Object.fromEntries(
+        [...this.#threads].map(([postId, { since, expiresAt }]) => [
+          postId,
+          {
+            since: since.toISOString(),
+            expiresAt: expiresAt?.toISOString() ?? null
+          }
+        ])
+      )
+    );
+  }
+}
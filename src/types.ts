@@ -1,4 +1,8 @@
 import {
+  AdminPurgeCommentView,
+  AdminPurgeCommunityView,
+  AdminPurgePersonView,
+  AdminPurgePostView,
   CommentReplyView,
   CommentReportView,
   CommentSortType,
@@ -8,6 +12,7 @@ import {
   ModBanFromCommunityView,
   ModBanView,
   ModFeaturePostView,
+  ModHideCommunityView,
   ModLockPostView,
   ModRemoveCommentView,
   ModRemoveCommunityView,
@@ -73,20 +78,62 @@ import {
   ListMedia,
   ListMediaResponse,
   HidePost,
-  SuccessResponse
+  SuccessResponse,
+  Post,
+  GetPosts,
+  GetComments,
+  Search,
+  ListCommunities,
+  CommunityView,
+  PersonView,
+  CreateCommunity,
+  EditCommunity,
+  AddModToCommunity,
+  AddModToCommunityResponse,
+  TransferCommunity,
+  HideCommunity,
+  DeletePost,
+  DeleteComment,
+  EditPrivateMessage,
+  DeletePrivateMessage,
+  SavePost,
+  SaveComment,
+  BlockPerson,
+  BlockPersonResponse,
+  BlockCommunity,
+  BlockCommunityResponse,
+  BlockInstance,
+  BlockInstanceResponse,
+  GetRepliesResponse,
+  SaveUserSettings,
+  GetUnreadCountResponse
 } from 'lemmy-js-client';
 
 export type BotOptions = {
-  credentials?: BotCredentials;
   /**
-   * Domain name of the instance the bot will run on.
+   * Account the bot logs in as, or several accounts keyed by a name of your choosing.
+   * With several accounts, the first one on each instance is the main account for that instance: it polls
+   * the instance's inbox and performs bot actions unless another account is picked with {@link BotActions.as}.
+   *
+   * @example
+   * ```
+   * {
+   *   modbot: { username: 'ModBot', password: 'hunter2' },
+   *   helper: { username: 'HelperBot', password: 'hunter3' }
+   * }
+   * ```
+   */
+  credentials?: BotCredentials | Record<string, BotCredentials>;
+  /**
+   * Domain name of the instance the bot will run on, or of each instance if the bot runs on several.
+   * The first instance is the bot's main instance.
    *
    * @example
    * ```
    * 'lemmy.ml'
    * ```
    */
-  instance: string;
+  instance: string | string[];
   /**
    * Options for a bot's connection
    */
@@ -107,8 +154,17 @@ export type BotOptions = {
   schedule?: BotTask | BotTask[];
   /**
    * File to use for SQLite DB. If not provided, will store DB in memory.
+   * Ignored if {@link BotOptions.storage} is provided.
    */
   dbFile?: string;
+  /**
+   * Storage used to keep track of which items the bot has already handled.
+   * If not provided, the bot will use SQLite if the optional sqlite3 dependency is installed,
+   * falling back to in-memory storage if it is not.
+   *
+   * @see {@link BotStorage} for implementing your own storage
+   */
+  storage?: BotStorage;
   /**
    * If true, the bot will automatically mark it's account as a bot on sign in.
    * If set to false, make sure not to forget to manually mark the account as a bot.
@@ -123,6 +179,13 @@ export type BotOptions = {
    * @default true
    */
   enableLogs?: boolean;
+  /**
+   * Logger to send the bot's logs to. Accepts any object with debug, info, warn, and error methods,
+   * such as a winston logger. If not provided, logs are written to the console.
+   *
+   * @see {@link createJsonLogger} for a logger that outputs JSON lines
+   */
+  logger?: BotLogger;
   /**
    * If true, the bot will not actually perform any actions.
    * If set to false, the bot will perform actions as normal.
@@ -131,12 +194,65 @@ export type BotOptions = {
    * @default false
    */
   dryRun?: boolean;
+  /**
+   * File to append a JSON line to for every action the bot would have performed during a dry run.
+   * The latest actions can also be retrieved with {@link LemmyBot.dryRunTranscript}.
+   */
+  dryRunTranscriptFile?: string;
   /**
    *  If true, the bot uses HTTPS. If false, it uses HTTP.
    *
    * @default true
    * */
   secure?: boolean;
+  /**
+   * Commands the bot responds to in mentions, comment replies, and private messages, keyed by command name.
+   * Requires credentials.
+   *
+   * @example
+   * ```
+   * {
+   *   roll: defineCommand({
+   *     description: 'Roll a die',
+   *     args: [{ name: 'sides', type: 'number', optional: true }],
+   *     handle: ({ args: { sides = 6 }, reply }) =>
+   *       reply(`You rolled ${Math.ceil(Math.random() * sides)}`)
+   *   })
+   * }
+   * ```
+   */
+  commands?: BotCommands;
+  /**
+   * Prefix that marks the start of a command.
+   *
+   * @default '!'
+   */
+  commandPrefix?: string;
+  /**
+   * Usernames of people who can control the bot by sending it private messages,
+   * e.g. `status`, `pause post`, or `stop`. Names without an instance, e.g. `'alice'`,
+   * must be on the instance the message is sent on. Names with an instance, e.g. `'alice@lemmy.ml'`,
+   * must be on that instance.
+   */
+  owners?: string[];
+  /**
+   * Options for the queue bot actions go through to respect the instance's rate limits
+   */
+  actionQueue?: BotActionQueueOptions;
+  /**
+   * Called when a handler throws. Each item is handled in isolation,
+   * so an error handling one item does not stop other items from being handled.
+   */
+  onError?: (error: unknown, context: BotErrorContext) => void | Promise<void>;
+  /**
+   * How items whose handler threw are retried
+   */
+  retryPolicy?: BotRetryPolicy;
+  /**
+   * Serve the bot's health at `/healthz` and Prometheus metrics at `/metrics` over HTTP.
+   * No server is started if not set.
+   */
+  monitoring?: BotMonitoringOptions;
 };
 
 type ParentPost = {
@@ -151,6 +267,16 @@ type ParentComment = {
 
 export type ParentResponse = ParentPost | ParentComment;
 
+export type BotCommentAncestors = {
+  postView: PostView;
+  ancestors: CommentView[];
+};
+
+export type BotCommentNode = {
+  commentView: CommentView;
+  replies: BotCommentNode[];
+};
+
 export type BotActions = {
   reportComment: (form: CreateCommentReport) => Promise<CommentReportResponse>;
   createComment: (form: CreateComment) => Promise<CommentResponse>;
@@ -198,6 +324,23 @@ export type BotActions = {
   getPost: (form: GetPost) => Promise<GetPostResponse>;
   getComment: (commentId: GetComment) => Promise<CommentResponse>;
   getParentOfComment: (form: Comment) => Promise<ParentResponse>;
+  /**
+   * Get every comment a comment replies to, starting with the top level comment, along with the
+   * post it is on. The comments are requested without waiting for each level's parent, limited by the action queue.
+   */
+  getCommentAncestors: (comment: Comment) => Promise<BotCommentAncestors>;
+  /**
+   * Get the comments on a post, or a comment and its replies, as a tree. Replies are ordered oldest first.
+   */
+  getCommentTree: (
+    target: { postId: number } | { commentId: number },
+    options?: {
+      /**
+       * Levels of comments to include below the post or comment. Every level is included if not set.
+       */
+      maxDepth?: number;
+    }
+  ) => Promise<BotCommentNode[]>;
   isCommunityMod: (form: {
     person: Person;
     community: Community;
@@ -206,14 +349,146 @@ export type BotActions = {
   listMedia: (form?: ListMedia) => Promise<ListMediaResponse>;
   listAllMedia: (form?: ListMedia) => Promise<ListMediaResponse>;
   hidePost: (form: HidePost) => Promise<SuccessResponse>;
+  createCommunity: (form: CreateCommunity) => Promise<CommunityResponse>;
+  editCommunity: (form: EditCommunity) => Promise<CommunityResponse>;
+  addModToCommunity: (
+    form: AddModToCommunity
+  ) => Promise<AddModToCommunityResponse>;
+  /**
+   * Make a moderator of a community its top moderator
+   */
+  transferCommunity: (form: TransferCommunity) => Promise<GetCommunityResponse>;
+  hideCommunity: (form: HideCommunity) => Promise<SuccessResponse>;
+  /**
+   * Make a person a moderator of a community if they aren't one already
+   *
+   * @returns true if the person was added as a moderator, false if they already were one
+   */
+  ensureModerator: (form: {
+    community: Community;
+    person: Person;
+  }) => Promise<boolean>;
+  /**
+   * Remove every post and comment a person has made, resolve the open reports against them, and
+   * optionally ban them. Content that was already removed isn't removed again, and content in
+   * communities excluded by the bot's federation options is left alone.
+   */
+  removeAllByPerson: (
+    form: BotRemoveAllByPersonForm
+  ) => Promise<BotRemovalSummary>;
+  /**
+   * Delete or restore one of the bot's own posts
+   */
+  deletePost: (form: DeletePost) => Promise<PostResponse>;
+  /**
+   * Delete or restore one of the bot's own comments
+   */
+  deleteComment: (form: DeleteComment) => Promise<CommentResponse>;
+  editPrivateMessage: (
+    form: EditPrivateMessage
+  ) => Promise<PrivateMessageResponse>;
+  deletePrivateMessage: (
+    form: DeletePrivateMessage
+  ) => Promise<PrivateMessageResponse>;
+  savePost: (form: SavePost) => Promise<PostResponse>;
+  saveComment: (form: SaveComment) => Promise<CommentResponse>;
+  blockPerson: (form: BlockPerson) => Promise<BlockPersonResponse>;
+  blockCommunity: (form: BlockCommunity) => Promise<BlockCommunityResponse>;
+  blockInstance: (form: BlockInstance) => Promise<BlockInstanceResponse>;
+  /**
+   * Mark all of the bot's replies, mentions, and private messages as read
+   */
+  markAllAsRead: () => Promise<GetRepliesResponse>;
+  /**
+   * Update the bot account's profile and settings. Settings that aren't given are left unchanged.
+   */
+  saveUserSettings: (form: SaveUserSettings) => Promise<SuccessResponse>;
+  /**
+   * Get how many unread replies, mentions, and private messages the bot has
+   */
+  getUnreadCounts: () => Promise<GetUnreadCountResponse>;
+  /**
+   * Start polling a post for new comments, which are passed to the `threadWatch` handler.
+   * Only comments published after the post is first watched are handled. Watching a post that is
+   * already watched replaces its expiry.
+   */
+  watchThread: (
+    postId: number,
+    options?: {
+      /**
+       * Minutes until the bot stops watching the post. Posts are watched until unwatched if not set.
+       */
+      minutesUntilExpiry?: number;
+    }
+  ) => Promise<void>;
+  unwatchThread: (postId: number) => Promise<void>;
+  /**
+   * Lists posts, fetching pages as they are iterated over.
+   * Posts in communities excluded by the bot's federation options are skipped.
+   */
+  listPosts: (
+    form?: Omit<GetPosts, 'page' | 'page_cursor'> & BotListOptions
+  ) => AsyncIterableIterator<PostView>;
+  /**
+   * Lists comments, fetching pages as they are iterated over.
+   * Comments in communities excluded by the bot's federation options are skipped.
+   */
+  listComments: (
+    form?: Omit<GetComments, 'page'> & BotListOptions
+  ) => AsyncIterableIterator<CommentView>;
+  /**
+   * Searches for posts, comments, communities, and people, fetching pages as they are iterated over.
+   * Results in communities excluded by the bot's federation options are skipped.
+   */
+  search: (
+    form: Omit<Search, 'page'> & BotListOptions
+  ) => AsyncIterableIterator<BotSearchResult>;
+  /**
+   * Lists communities, fetching pages as they are iterated over.
+   * Communities excluded by the bot's federation options are skipped.
+   */
+  listCommunities: (
+    form?: Omit<ListCommunities, 'page'> & BotListOptions
+  ) => AsyncIterableIterator<CommunityView>;
+  /**
+   * Lists reports the bot's account can see, fetching pages as they are iterated over.
+   * Post and comment reports in communities excluded by the bot's federation options are skipped.
+   */
+  listReports: (form?: BotListReportsForm) => AsyncIterableIterator<BotReport>;
+  /**
+   * Bot actions performed by another of the bot's accounts. Accounts are named by their key in the
+   * credentials map, or by their username if the bot only has one account.
+   */
+  as: (account: string) => BotActions;
 };
 
 export type InternalHandlers = {
   comment?: BotHandlerOptions<
     { commentView: CommentView },
-    { sort?: CommentSortType }
+    { sort?: CommentSortType; filter?: BotContentFilter }
   >;
-  post?: BotHandlerOptions<{ postView: PostView }, { sort?: SortType }>;
+  post?: BotHandlerOptions<
+    { postView: PostView },
+    { sort?: SortType; filter?: BotContentFilter }
+  >;
+  postEdit?: BotHandlerOptions<
+    { postView: PostView; previous: BotPostSnapshot },
+    EditHandlerOptions
+  >;
+  commentEdit?: BotHandlerOptions<
+    { commentView: CommentView; previous: BotCommentSnapshot },
+    EditHandlerOptions
+  >;
+  /**
+   * Handles new comments on posts watched with {@link BotActions.watchThread}
+   */
+  threadWatch?: BotHandlerOptions<{
+    commentView: CommentView;
+    /**
+     * Comments the comment is a reply to, starting with the top level comment. Empty for top level comments.
+     */
+    ancestors: CommentView[];
+  }>;
   privateMessage?: BotHandlerOptions<{ messageView: PrivateMessageView }>;
   registrationApplication?: BotHandlerOptions<{
     applicationView: RegistrationApplicationView;
@@ -234,7 +509,9 @@ export type InternalHandlers = {
   modRemoveCommunity?: BotHandlerOptions<{
     removedCommunityView: ModRemoveCommunityView;
   }>;
-  modBanFromCommunity?: BotHandlerOptions<{ banView: ModBanFromCommunityView }>;
+  modBanFromCommunity?: BotHandlerOptions<
+    { banView: ModBanFromCommunityView } & BanDetails
+  >;
   modAddModToCommunity?: BotHandlerOptions<{
     modAddedToCommunityView: ModAddCommunityView;
   }>;
@@ -242,9 +519,84 @@ export type InternalHandlers = {
     modTransferredToCommunityView: ModTransferCommunityView;
   }>;
   modAddAdmin?: BotHandlerOptions<{ addedAdminView: ModAddView }>;
-  modBanFromSite?: BotHandlerOptions<{ banView: ModBanView }>;
+  modBanFromSite?: BotHandlerOptions<{ banView: ModBanView } & BanDetails>;
+  modHideCommunity?: BotHandlerOptions<{
+    hiddenCommunityView: ModHideCommunityView;
+  }>;
+  adminPurgePerson?: BotHandlerOptions<{
+    purgedPersonView: AdminPurgePersonView;
+  }>;
+  adminPurgeCommunity?: BotHandlerOptions<{
+    purgedCommunityView: AdminPurgeCommunityView;
+  }>;
+  adminPurgePost?: BotHandlerOptions<{ purgedPostView: AdminPurgePostView }>;
+  adminPurgeComment?: BotHandlerOptions<{
+    purgedCommentView: AdminPurgeCommentView;
+  }>;
+  /**
+   * Handles every type of modlog entry
+   */
+  modlog?: BotHandlerOptions<{ modlogView: BotModlogView }>;
+};
+
+type EditHandlerOptions = {
+  /**
+   * Minutes after an item is published to keep watching it for edits.
+   * Items are rechecked every poll until they are older than this, so longer windows fetch more pages.
+   *
+   * @defaultValue 1440
+   */
+  minutesToTrack?: number;
+  /**
+   * Only handle edits of items that pass this filter
+   */
+  filter?: BotContentFilter;
 };
 
+/**
+ * What a post looked like before it was edited
+ */
+export type BotPostSnapshot = Pick<
+  Post,
+  'name' | 'body' | 'url' | 'nsfw' | 'updated'
+>;
+
+/**
+ * What a comment looked like before it was edited
+ */
+export type BotCommentSnapshot = Pick<Comment, 'content' | 'updated'>;
+
+type BanDetails = {
+  /**
+   * False if the entry is for an unban
+   */
+  isBan: boolean;
+  /**
+   * When the ban expires. Null for permanent bans and unbans.
+   */
+  expires: Date | null;
+};
+
+/**
+ * A modlog entry of any type. `type` tells which type of view `view` is.
+ */
+export type BotModlogView =
+  | { type: 'ModRemovePost'; view: ModRemovePostView }
+  | { type: 'ModLockPost'; view: ModLockPostView }
+  | { type: 'ModFeaturePost'; view: ModFeaturePostView }
+  | { type: 'ModRemoveComment'; view: ModRemoveCommentView }
+  | { type: 'ModRemoveCommunity'; view: ModRemoveCommunityView }
+  | { type: 'ModBanFromCommunity'; view: ModBanFromCommunityView }
+  | { type: 'ModAddCommunity'; view: ModAddCommunityView }
+  | { type: 'ModTransferCommunity'; view: ModTransferCommunityView }
+  | { type: 'ModAdd'; view: ModAddView }
+  | { type: 'ModBan'; view: ModBanView }
+  | { type: 'ModHideCommunity'; view: ModHideCommunityView }
+  | { type: 'AdminPurgePerson'; view: AdminPurgePersonView }
+  | { type: 'AdminPurgeCommunity'; view: AdminPurgeCommunityView }
+  | { type: 'AdminPurgePost'; view: AdminPurgePostView }
+  | { type: 'AdminPurgeComment'; view: AdminPurgeCommentView };
+
 type Handler<T> = (
   options: {
     botActions: BotActions;
@@ -260,6 +612,11 @@ type Handler<T> = (
      * @param minutes - minutes until item is valid to reprocess again
      */
     reprocess: (minutes: number) => void;
+    /**
+     * Instance the item came from. Bot actions and IDs are for this instance.
+     */
+    instance: string;
+    state: BotState;
     __httpClient__: LemmyHttp;
   } & T
 ) => Promise<void> | void;
@@ -285,6 +642,21 @@ export type BotHandlerOptions<
    * @defaultValue undefined
    */
   minutesUntilReprocess?: number;
+  /**
+   * Maximum number of pages to fetch per poll when catching up on items that arrived since the last poll.
+   * Overrides the value set in {@link BotConnectionOptions.maxPagesPerPoll}
+   *
+   * @defaultValue 5
+   */
+  maxPagesPerPoll?: number;
+  /**
+   * When set, the first poll after the bot starts fetches every item published since this time
+   * instead of only the first page.
+   * Overrides the value set in {@link BotConnectionOptions.backfillSince}
+   *
+   * @defaultValue undefined
+   */
+  backfillSince?: Date;
 } & TOptions;
 
 export type BotHandlers = {
@@ -295,6 +667,145 @@ export type BotHandlers = {
     : undefined;
 };
 
+export type BotCommandArgumentType = 'string' | 'number' | 'boolean';
+
+export type BotCommandArgument = {
+  name: string;
+  /**
+   * @default 'string'
+   */
+  type?: BotCommandArgumentType;
+  /**
+   * If true, the command can be used without this argument. Optional arguments must come after required ones.
+   *
+   * @default false
+   */
+  optional?: boolean;
+  /**
+   * If true, the argument receives the rest of the command text, spaces included. Only the last argument can be a rest argument.
+   *
+   * @default false
+   */
+  rest?: boolean;
+  description?: string;
+};
+
+type BotCommandArgumentValue<T extends BotCommandArgument> =
+  T['type'] extends 'number'
+    ? number
+    : T['type'] extends 'boolean'
+      ? boolean
+      : string;
+
+export type BotCommandArguments<TArgs extends readonly BotCommandArgument[]> = {
+  [A in TArgs[number] as A['name']]: A['optional'] extends true
+    ? BotCommandArgumentValue<A> | undefined
+    : BotCommandArgumentValue<A>;
+};
+
+export type BotListOptions = {
+  /**
+   * Items to fetch per page
+   *
+   * @defaultValue 50
+   */
+  limit?: number;
+  /**
+   * Stop after this many items. Pages are fetched until there are no more items if not set.
+   */
+  maxItems?: number;
+};
+
+export type BotSearchResult =
+  | { type: 'post'; postView: PostView }
+  | { type: 'comment'; commentView: CommentView }
+  | { type: 'community'; communityView: CommunityView }
+  | { type: 'person'; personView: PersonView };
+
+export type BotReport =
+  | { type: 'post'; reportView: PostReportView }
+  | { type: 'comment'; reportView: CommentReportView }
+  | { type: 'privateMessage'; reportView: PrivateMessageReportView };
+
+export type BotListReportsForm = BotListOptions & {
+  /**
+   * Only list reports of this type. Post reports are listed first, then comment reports, then private message reports if not set.
+   */
+  type?: BotReport['type'];
+  unresolved_only?: boolean;
+  /**
+   * Only list reports in this community. Private message reports aren't in a community, so they aren't listed when this is set.
+   */
+  community_id?: number;
+};
+
+export type BotRemoveAllByPersonForm = {
+  person: Person;
+  /**
+   * Only remove content in this community, and ban the person from it instead of the whole site
+   */
+  community?: Community;
+  /**
+   * Only remove content published after this date
+   */
+  since?: Date;
+  reason: string;
+  /**
+   * Whether to ban the person as well
+   *
+   * @defaultValue false
+   */
+  ban?: boolean;
+};
+
+export type BotRemovalSummary = {
+  removedPostIds: number[];
+  removedCommentIds: number[];
+  resolvedPostReportIds: number[];
+  resolvedCommentReportIds: number[];
+  banned: boolean;
+};
+
+export type BotCommandSource =
+  | { type: 'mention'; mentionView: PersonMentionView }
+  | { type: 'reply'; replyView: CommentReplyView }
+  | { type: 'privateMessage'; messageView: PrivateMessageView };
+
+export type BotCommand<
+  TArgs extends readonly BotCommandArgument[] = BotCommandArgument[]
+> = {
+  description?: string;
+  args?: TArgs;
+  /**
+   * Other names the command can be invoked with
+   */
+  aliases?: string[];
+  handle: (options: {
+    args: BotCommandArguments<TArgs>;
+    /**
+     * Where the command was sent from
+     */
+    source: BotCommandSource;
+    /**
+     * Person who sent the command
+     */
+    sender: Person;
+    /**
+     * Respond to the command in the same place it was sent, i.e. as a comment reply or private message
+     */
+    reply: (content: string) => Promise<unknown>;
+    /**
+     * Instance the command was sent on
+     */
+    instance: string;
+    botActions: BotActions;
+    state: BotState;
+    __httpClient__: LemmyHttp;
+  }) => Promise<void> | void;
+};
+
+export type BotCommands = Record<string, BotCommand<any>>;
+
 export enum Vote {
   Upvote = 1,
   Downvote = -1,
@@ -334,6 +845,7 @@ export type BotTask = {
   cronExpression: string;
   doTask: (options: {
     botActions: BotActions;
+    state: BotState;
     __httpClient__: LemmyHttp;
   }) => Promise<void>;
   /**
@@ -362,9 +874,496 @@ export type BotConnectionOptions = {
    * @defaultValue undefined
    */
   minutesUntilReprocess?: number;
+  /**
+   * Maximum number of pages to fetch per poll when catching up on items that arrived since the last poll.
+   * Polling stops early once it reaches an item that has already been handled.
+   * Can be overridden by {@link BotHandlerOptions.maxPagesPerPoll}
+   *
+   * @defaultValue 5
+   */
+  maxPagesPerPoll?: number;
+  /**
+   * When set, the first poll after the bot starts fetches every item published since this time
+   * instead of only the first page.
+   * Can be overridden by {@link BotHandlerOptions.backfillSince}
+   *
+   * @defaultValue undefined
+   */
+  backfillSince?: Date;
 };
 
 export type BotCredentials = {
   username: string;
   password: string;
+  /**
+   * Instance the account is on. Must be one of the bot's instances.
+   *
+   * @default the bot's main instance
+   */
+  instance?: string;
+  /**
+   * Secret for generating two-factor authentication codes, for accounts with 2FA enabled.
+   * Either the base32 secret or the otpauth:// URL shown when 2FA was enabled.
+   */
+  totpSecret?: string;
+};
+
+export type BotStorageTable =
+  | 'comments'
+  | 'posts'
+  | 'messages'
+  | 'registrations'
+  | 'mentions'
+  | 'replies'
+  | 'commentReports'
+  | 'postReports'
+  | 'messageReports'
+  | 'removedPosts'
+  | 'lockedPosts'
+  | 'featuredPosts'
+  | 'removedComments'
+  | 'removedCommunities'
+  | 'communityBans'
+  | 'modsAddedToCommunities'
+  | 'modsTransferredToCommunities'
+  | 'adminsAdded'
+  | 'siteBans'
+  | 'postEdits'
+  | 'commentEdits'
+  | 'threadComments'
+  | 'hiddenCommunities'
+  | 'purgedPersons'
+  | 'purgedCommunities'
+  | 'purgedPosts'
+  | 'purgedComments'
+  | 'modlog';
+
+export type BotStorageInfo = {
+  /**
+   * Whether the item has been handled before
+   */
+  exists: boolean;
+  /**
+   * Time after which the item is valid to be handled again. Null if the item should never be reprocessed.
+   */
+  reprocessTime: Date | null;
+};
+
+/**
+ * Storage the bot uses to keep track of items it has already handled.
+ * Each method receives the table for the type of item being handled, e.g. 'posts' or 'mentions'.
+ */
+export type BotStorage = {
+  /**
+   * Called once when the bot starts, before any other method is called.
+   * Records stored before items were kept separately for each instance belong to `mainInstance`.
+   */
+  init?: (mainInstance: string) => Promise<void>;
+  /**
+   * Get whether an item has been handled and when it can be reprocessed.
+   * Item IDs are only unique within an instance, so items are identified by instance, table, and ID.
+   * Items that aren't stored must resolve to `{ exists: false, reprocessTime: null }`.
+   */
+  get: (
+    instance: string,
+    table: BotStorageTable,
+    id: number
+  ) => Promise<BotStorageInfo>;
+  /**
+   * Record that an item was handled, replacing any previous record for it.
+   */
+  upsert: (
+    instance: string,
+    table: BotStorageTable,
+    id: number,
+    reprocessTime: Date | null
+  ) => Promise<void>;
+  /**
+   * Delete records whose reprocess time is before `before`, on every instance.
+   * Records without a reprocess time must be kept.
+   */
+  prune: (table: BotStorageTable, before: Date) => Promise<void>;
+  /**
+   * Get items whose handler threw.
+   * If `dueBefore` is provided, only items with a next attempt time before it are returned.
+   */
+  getFailedItems: (options?: {
+    instance?: string;
+    table?: BotStorageTable;
+    dueBefore?: Date;
+  }) => Promise<BotFailedItem[]>;
+  /**
+   * Record an item whose handler threw, replacing any previous record for it.
+   */
+  upsertFailedItem: (failedItem: BotFailedItem) => Promise<void>;
+  /**
+   * Delete the record of a failed item, e.g. once it has been handled successfully.
+   */
+  deleteFailedItem: (
+    instance: string,
+    table: BotStorageTable,
+    id: number
+  ) => Promise<void>;
+  /**
+   * Get a JSON encoded value set by handlers through {@link BotState}.
+   * Must resolve to undefined if the value isn't set or has expired.
+   */
+  getState: (scope: string, key: string) => Promise<string | undefined>;
+  /**
+   * Set a JSON encoded value, replacing any previous value for the key.
+   * Values with an expiry time of null never expire.
+   */
+  setState: (
+    scope: string,
+    key: string,
+    value: string,
+    expiresAt: Date | null
+  ) => Promise<void>;
+  deleteState: (scope: string, key: string) => Promise<void>;
+  /**
+   * Delete values that expire before `before`
+   */
+  pruneState: (before: Date) => Promise<void>;
+  /**
+   * Called when the bot no longer needs the storage.
+   */
+  close?: () => Promise<void>;
+};
+
+/**
+ * Item whose handler threw, kept so that it can be retried
+ */
+export type BotFailedItem = {
+  /**
+   * Instance the item came from
+   */
+  instance: string;
+  table: BotStorageTable;
+  id: number;
+  /**
+   * What was passed to the handler, e.g. `{ postView }`
+   */
+  item: unknown;
+  /**
+   * Number of times the handler has thrown for the item
+   */
+  attempts: number;
+  /**
+   * Message of the last error thrown
+   */
+  error: string;
+  /**
+   * Time after which the item will be retried. Null once the item has run out of attempts.
+   */
+  nextAttemptTime: Date | null;
+};
+
+export type BotErrorContext = {
+  /**
+   * Handler that threw, e.g. 'post' or 'mention'
+   */
+  handler: keyof BotHandlers;
+  /**
+   * Instance the item came from
+   */
+  instance: string;
+  /**
+   * What was passed to the handler, e.g. `{ postView }`
+   */
+  item: unknown;
+  /**
+   * Number of times the handler has been run for the item, including this one
+   */
+  attempt: number;
+};
+
+export type BotMonitoringOptions = {
+  port: number;
+  /**
+   * @default '0.0.0.0'
+   */
+  host?: string;
+  /**
+   * Number of polls a handler can miss in a row before the bot is reported as unhealthy
+   *
+   * @default 3
+   */
+  missedPollsBeforeUnhealthy?: number;
+};
+
+/**
+ * Whether the bot is running properly, as served at `/healthz`
+ */
+export type BotHealth = {
+  /**
+   * True if the bot is running, every account is logged in, and every handler has polled successfully recently
+   */
+  healthy: boolean;
+  running: boolean;
+  accounts: { instance: string; account: string; loggedIn: boolean }[];
+  handlers: {
+    instance: string;
+    handler: keyof BotHandlers;
+    /**
+     * Null if the handler hasn't polled successfully yet
+     */
+    lastSuccessfulPoll: Date | null;
+    /**
+     * True if one of the bot's owners paused the handler. Paused handlers count as healthy.
+     */
+    paused: boolean;
+    healthy: boolean;
+  }[];
+};
+
+export type BotRetryPolicy = {
+  /**
+   * Number of times to run a handler for an item before giving up on it, including the first time.
+   * Items that run out of attempts are kept in storage and can be retrieved with {@link LemmyBot.getFailedItems}.
+   *
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Minutes to wait before retrying an item the first time. The wait doubles after each failed retry.
+   *
+   * @default 5
+   */
+  minutesBetweenAttempts?: number;
+};
+
+/**
+ * Lemmy rate limits actions by type. Actions that aren't posts, comments, image uploads, or searches count as messages.
+ */
+export type BotRateLimitType =
+  | 'message'
+  | 'post'
+  | 'comment'
+  | 'image'
+  | 'search';
+
+export type BotRateLimit = {
+  /**
+   * Number of actions allowed in the interval
+   */
+  actions: number;
+  /**
+   * Length of the interval in seconds
+   */
+  perSeconds: number;
+};
+
+export type BotRateLimits = Partial<Record<BotRateLimitType, BotRateLimit>>;
+
+export type BotActionQueueOptions = {
+  /**
+   * Rate limits to use instead of the ones configured on the instance.
+   * If not provided, the bot uses the instance's rate limits once it logs in, and Lemmy's defaults before that.
+   */
+  rateLimits?: BotRateLimits;
+  /**
+   * Number of times to retry an action that failed because of a rate limit or a transient network error
+   *
+   * @default 5
+   */
+  maxRetries?: number;
+  /**
+   * Milliseconds to wait before the first retry. Doubles with each retry.
+   *
+   * @default 1000
+   */
+  initialRetryDelayMs?: number;
+  /**
+   * Maximum milliseconds to wait between retries
+   *
+   * @default 60000
+   */
+  maxRetryDelayMs?: number;
+};
+
+export type BotDryRunAction = {
+  /**
+   * Name of the bot action that would have been performed, e.g. 'createComment'
+   */
+  action: string;
+  description: string;
+  /**
+   * Form the action would have been sent with
+   */
+  form: unknown;
+  /**
+   * Name of the account that would have performed the action
+   */
+  account?: string;
+  timestamp: string;
+};
+
+export type BotLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured information attached to a log line
+ */
+export type BotLogContext = {
+  /**
+   * Handler that was running, e.g. 'post' or 'mention'
+   */
+  handler?: string;
+  /**
+   * ID of the item being handled
+   */
+  itemId?: number;
+  /**
+   * Bot action being performed, e.g. 'createComment'
+   */
+  action?: string;
+  /**
+   * Name of the account performing the action
+   */
+  account?: string;
+  /**
+   * Instance the bot is running on
+   */
+  instance?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Events emitted by the bot, for supervisors that need to react to what the bot is doing.
+ * Listen with `bot.on(event, listener)`.
+ */
+export type BotEvents = {
+  /**
+   * The bot has logged in, set up its pollers, and started its scheduled tasks
+   */
+  started: [];
+  /**
+   * The bot has finished stopping and closed its storage
+   */
+  stopped: [];
+  loggedIn: [event: { instance: string; account: string }];
+  /**
+   * A handler finished polling its instance, including handling every new item it found
+   */
+  pollCompleted: [
+    event: { instance: string; handler: keyof BotHandlers; itemCount: number }
+  ];
+  actionPerformed: [
+    event: {
+      instance: string;
+      action: keyof BotActions;
+      args: unknown[];
+      /**
+       * Name of the account that performed the action. Undefined for actions that don't need an account.
+       */
+      account?: string;
+    }
+  ];
+  /**
+   * Something went wrong while the bot was running, e.g. a handler threw or a poll failed.
+   * Unlike most event emitters, the bot does not throw when there are no `error` listeners.
+   */
+  error: [event: { error: unknown; context: BotLogContext }];
+};
+
+export type BotLogger = {
+  [L in BotLogLevel]: (message: string, context?: BotLogContext) => void;
+};
+
+/**
+ * Keywords or patterns to match text against. Strings match if the text contains them, ignoring case.
+ * Matches if any of the keywords or patterns match.
+ */
+export type BotTextMatcher = string | RegExp | (string | RegExp)[];
+
+export type BotRange = {
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Names to allow or block. Names without an instance, e.g. 'asklemmy', match on any instance.
+ * Names with an instance, e.g. 'asklemmy@lemmy.ml', only match on that instance.
+ */
+export type BotNameFilter = {
+  /**
+   * If provided, only items matching one of these names are handled
+   */
+  allow?: string[];
+  /**
+   * Items matching one of these names are not handled
+   */
+  block?: string[];
+};
+
+/**
+ * Conditions a post or comment must meet for its handler to run. Items that don't meet them are
+ * still marked as handled, so they are skipped without being fetched again.
+ * For comments, `nsfw`, `title`, and `url` are checked against the comment's post.
+ */
+export type BotContentFilter = {
+  /**
+   * Skip items created by any of the bot's accounts
+   *
+   * @default true
+   */
+  excludeSelf?: boolean;
+  author?: BotNameFilter;
+  /**
+   * If provided, only items whose author's bot account setting matches this are handled
+   */
+  botAccount?: boolean;
+  community?: BotNameFilter;
+  /**
+   * If provided, only items in one of these languages are handled
+   */
+  languageIds?: number[];
+  /**
+   * If provided, only items whose NSFW setting matches this are handled
+   */
+  nsfw?: boolean;
+  /**
+   * Range of minutes since the item was published. Checked when the item is first seen.
+   */
+  age?: BotRange;
+  /**
+   * Range of the item's score. Checked when the item is first seen.
+   */
+  score?: BotRange;
+  title?: BotTextMatcher;
+  body?: BotTextMatcher;
+  url?: BotTextMatcher;
+};
+
+/**
+ * Values stored with {@link BotState} under one scope
+ */
+export type BotStateStore = {
+  /**
+   * Get a value. Resolves to undefined if the value isn't set or has expired.
+   */
+  get: <T = unknown>(key: string) => Promise<T | undefined>;
+  /**
+   * Set a value. Values are stored as JSON, so they must be serializable.
+   */
+  set: (
+    key: string,
+    value: unknown,
+    options?: {
+      /**
+       * Minutes until the value expires. Values without an expiry are kept until deleted.
+       */
+      minutesUntilExpiry?: number;
+    }
+  ) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+};
+
+/**
+ * Values that persist between runs of the bot, kept in the bot's storage.
+ * Values set directly on the state are global. Use the scope methods to keep values for a specific person, community, or post.
+ */
+export type BotState = BotStateStore & {
+  person: (personId: number) => BotStateStore;
+  community: (communityId: number) => BotStateStore;
+  post: (postId: number) => BotStateStore;
 };